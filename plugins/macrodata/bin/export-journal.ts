@@ -0,0 +1,29 @@
+#!/usr/bin/env bun
+/**
+ * Export the journal to Markdown daily notes
+ *
+ * Usage: export-journal.ts [dir] [--since <date>]
+ * Without a directory, writes to export.dir from config.json. A relative
+ * directory is relative to the macrodata root, as export.dir is.
+ */
+
+import { exportJournal } from "../src/journal-export.js";
+
+function main() {
+  const args = process.argv.slice(2);
+  const sinceIndex = args.indexOf("--since");
+  const since = sinceIndex === -1 ? undefined : args[sinceIndex + 1];
+  const dir = args.find((arg, i) => !arg.startsWith("--") && (sinceIndex === -1 || i !== sinceIndex + 1));
+
+  try {
+    const result = exportJournal({ dir, since });
+    console.log(
+      `Exported journal: ${result.written.length} written, ${result.unchanged} unchanged, ${result.skipped.length} skipped, to ${result.dir}`
+    );
+  } catch (err) {
+    console.error("Failed to export journal:", err);
+    process.exit(1);
+  }
+}
+
+main();
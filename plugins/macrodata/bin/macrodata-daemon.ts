@@ -3,7 +3,8 @@
  * Macrodata Local Daemon
  *
  * Handles scheduled tasks, file watching for index updates, and triggers
- * Claude Code or OpenCode via CLI when reminders fire.
+ * Claude Code or OpenCode via CLI when reminders fire. Watch queries are
+ * checked whenever new memory or conversations are indexed.
  *
  * Usage:
  *   MACRODATA_ROOT=~/.config/macrodata bun run macrodata-daemon.ts
@@ -18,10 +19,12 @@ import { existsSync, readFileSync, writeFileSync, appendFileSync, mkdirSync, rea
 import { join, basename } from "path";
 import { Cron } from "croner";
 import { spawn, execSync } from "child_process";
-import { indexEntityFile, preloadModel } from "../src/indexer.js";
-import { getStateRoot, getEntitiesDir, getJournalDir, getIndexDir, getRemindersDir } from "../src/config.js";
-import { updateConversationIndex as updateOpenCodeConversations } from "../opencode/conversations.js";
+import { indexMemoryFile, preloadModel } from "../src/indexer.js";
+import { getStateRoot, getEntitiesDir, getJournalDir, getIndexDir, getRemindersDir, getTopicsDir, getExportConfig } from "../src/config.js";
+import { updateConversationIndex as updateOpenCodeConversations } from "../src/opencode-conversations.js";
 import { updateConversationIndex as updateClaudeCodeConversations } from "../src/conversations.js";
+import { checkWatches, formatWatchMatch } from "../src/watches.js";
+import { exportJournal, exportJournalFile } from "../src/journal-export.js";
 
 /**
  * Find an executable in PATH
@@ -279,6 +282,7 @@ class MacrodataLocalDaemon {
         // After model is loaded, incrementally update both conversation indexes
         return updateAllConversationIndexes();
       })
+      .then(() => this.runWatchCheck())
       .catch((err) => logError(`Failed to preload/index: ${err}`));
 
     // Load and start schedules
@@ -290,6 +294,9 @@ class MacrodataLocalDaemon {
     // Start file watcher for entity changes
     this.startFileWatcher();
 
+    // Catch the mirrored journal export up with changes made while stopped
+    this.mirrorJournal();
+
     // Keep process alive
     log("Daemon running");
   }
@@ -475,19 +482,44 @@ class MacrodataLocalDaemon {
     const stateRoot = getStateRoot();
     const entitiesDir = getEntitiesDir();
     const stateDir = join(stateRoot, "state");
+    const topicsDir = getTopicsDir();
+    const journalDir = getJournalDir();
 
-    // Watch both state files and entities
-    this.watcher = watch([stateDir, entitiesDir], {
+    // Watch state files, entities, topics and the journal
+    this.watcher = watch([stateDir, entitiesDir, topicsDir, journalDir], {
       ignoreInitial: true,
       persistent: true,
     });
 
     this.watcher.on("all", (event, path) => {
+      // Journal entries are indexed as they're logged, so only check watches
+      // and keep the mirrored export in sync
+      if (path.startsWith(journalDir)) {
+        if (!path.endsWith(".jsonl")) return;
+        if (event === "add" || event === "change") {
+          this.queueWatchCheck();
+        }
+        if (event === "add" || event === "change" || event === "unlink") {
+          this.mirrorJournal(path);
+        }
+        return;
+      }
+
       if (!path.endsWith(".md")) return;
-      if (event !== "add" && event !== "change") return;
+      if (event !== "add" && event !== "change" && event !== "unlink") return;
 
       log(`File ${event}: ${path}`);
 
+      // Deleted files - drop them from the index
+      if (event === "unlink") {
+        if (path.startsWith(entitiesDir)) {
+          const relative = path.slice(entitiesDir.length + 1);
+          writePendingContext(`<macrodata-update type="entity-removed" file="${relative}" />`);
+        }
+        this.queueReindex(path);
+        return;
+      }
+
       // State files (working memory) - inject full content
       if (path.startsWith(stateDir)) {
         try {
@@ -495,6 +527,11 @@ class MacrodataLocalDaemon {
           const filename = basename(path);
           writePendingContext(`<macrodata-update type="state" file="${filename}">\n${content}\n</macrodata-update>`);
         } catch {}
+        this.queueReindex(path);
+      }
+      // Topic files - searchable, but not injected
+      else if (path.startsWith(topicsDir)) {
+        this.queueReindex(path);
       }
       // Entity files - inject just the name
       else if (path.startsWith(entitiesDir)) {
@@ -504,7 +541,7 @@ class MacrodataLocalDaemon {
       }
     });
 
-    log(`Watching for state/entity changes in: ${stateRoot}`);
+    log(`Watching for state/entity/topic/journal changes in: ${stateRoot}`);
   }
 
   private reindexQueue: Set<string> = new Set();
@@ -531,12 +568,71 @@ class MacrodataLocalDaemon {
     log(`Reindexing ${paths.length} file(s)`);
     for (const path of paths) {
       try {
-        await indexEntityFile(path);
+        await indexMemoryFile(path);
         log(`  ✓ ${basename(path)}`);
       } catch (err) {
         log(`  ✗ ${basename(path)}: ${String(err)}`);
       }
     }
+
+    await this.runWatchCheck();
+  }
+
+  private watchCheckTimer: ReturnType<typeof setTimeout> | null = null;
+  private watchCheck: Promise<void> = Promise.resolve();
+
+  private queueWatchCheck() {
+    // Debounce like reindexing, as log_journal indexes just after appending
+    if (this.watchCheckTimer) {
+      clearTimeout(this.watchCheckTimer);
+    }
+    this.watchCheckTimer = setTimeout(() => {
+      void this.runWatchCheck();
+    }, 1000);
+  }
+
+  /**
+   * Report new hits for watch queries as pending context
+   * Checks run one at a time, so a hit is never reported twice.
+   */
+  private runWatchCheck(): Promise<void> {
+    this.watchCheck = this.watchCheck.then(async () => {
+      try {
+        const matches = await checkWatches();
+        for (const match of matches) {
+          writePendingContext(formatWatchMatch(match));
+        }
+        if (matches.length > 0) {
+          log(`Watch matches: ${matches.length}`);
+        }
+      } catch (err) {
+        logError(`Watch check failed: ${String(err)}`);
+      }
+    });
+    return this.watchCheck;
+  }
+
+  /**
+   * Re-export journal files to Markdown notes, if mirroring is configured
+   * Without a path, every day is exported.
+   */
+  private mirrorJournal(path?: string) {
+    const config = getExportConfig();
+    if (!config?.mirror) return;
+
+    try {
+      if (path) {
+        const outcome = exportJournalFile(path, config.dir);
+        if (outcome === "written") log(`Exported ${basename(path)} to ${config.dir}`);
+        if (outcome === "skipped") log(`Skipped ${basename(path)}: its note in ${config.dir} wasn't written by the export`);
+      } else {
+        const { written, skipped } = exportJournal({ dir: config.dir });
+        if (written.length > 0) log(`Exported ${written.length} journal day(s) to ${config.dir}`);
+        if (skipped.length > 0) log(`Skipped ${skipped.length} journal day(s) with notes not written by the export`);
+      }
+    } catch (err) {
+      logError(`Journal export failed: ${String(err)}`);
+    }
   }
 
   private reload() {
@@ -566,6 +662,7 @@ class MacrodataLocalDaemon {
     this.loadAndStartSchedules();
     this.watchRemindersDir();
     this.startFileWatcher();
+    this.mirrorJournal();
 
     log("Reload complete");
   }
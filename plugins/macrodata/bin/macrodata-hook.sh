@@ -108,6 +108,15 @@ check_files_changed() {
     return 1
 }
 
+# Print a directory the way the MCP server stamps projectPath on journal
+# entries (Node's path.resolve): no trailing slash or . and .. parts, with
+# symlinks left as they are
+normalize_dir() {
+    local dir="$1"
+    [ -z "$dir" ] && return
+    (CDPATH= cd -- "$dir" 2>/dev/null && pwd -L) || printf '%s\n' "${dir%/}"
+}
+
 get_recent_journal() {
     local count="${1:-5}"
     
@@ -115,16 +124,25 @@ get_recent_journal() {
         return
     fi
     
-    # Get most recent journal files and extract entries
-    local entries=""
-    for file in $(ls -t "$JOURNAL_DIR"/*.jsonl 2>/dev/null | head -3); do
-        if [ -f "$file" ]; then
-            # Get last N entries from each file, format as "- [topic] content"
-            entries="$entries$(tail -n "$count" "$file" 2>/dev/null | jq -r '"\n- [\(.topic)] \(.content | split("\n")[0])"' 2>/dev/null)"
-        fi
-    done
-    
-    echo "$entries" | head -n "$count"
+    # Entries from the most recent journal files, oldest first
+    local files
+    files=$(ls "$JOURNAL_DIR"/*.jsonl 2>/dev/null | sort | tail -3)
+    [ -z "$files" ] && return
+
+    # Prefer entries from the current project, then fill with the latest
+    # others, and format as "- [topic] content" in the order they were logged
+    local project
+    project=$(normalize_dir "${CLAUDE_PROJECT_DIR:-}")
+
+    cat $files 2>/dev/null | jq -Rrs --arg project "$project" --argjson count "$count" '
+        [split("\n")[] | select(length > 0) | fromjson?] as $entries
+        | [range(0; $entries | length)] as $all
+        | ([$all[] | select($project != "" and $entries[.].metadata.projectPath? == $project)] | .[length - $count:]) as $own
+        | ($own + ([$all[] | select(. as $i | $own | index([$i]) | not)] | .[length - ($count - ($own | length)):]))
+        | sort[]
+        | $entries[.]
+        | "- [\(.topic)] \(.content | split("\n")[0])"
+    ' 2>/dev/null
 }
 
 list_state_files() {
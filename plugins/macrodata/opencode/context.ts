@@ -72,7 +72,15 @@ interface JournalEntry {
   metadata?: Record<string, unknown>;
 }
 
-function getRecentJournal(count: number): JournalEntry[] {
+/** Journal files searched for current-project entries */
+const PROJECT_JOURNAL_FILES = 3;
+
+/**
+ * Get recent journal entries, newest first
+ * With a project path, entries from that project in the most recent
+ * journal files are preferred over newer entries from other projects.
+ */
+function getRecentJournal(count: number, projectPath?: string): JournalEntry[] {
   const entries: JournalEntry[] = [];
   const journalDir = getJournalDir();
 
@@ -84,14 +92,13 @@ function getRecentJournal(count: number): JournalEntry[] {
       .sort()
       .reverse();
 
-    for (const file of files) {
-      if (entries.length >= count) break;
+    for (const [i, file] of files.entries()) {
+      if (entries.length >= count && (!projectPath || i >= PROJECT_JOURNAL_FILES)) break;
 
       const content = readFileSync(join(journalDir, file), "utf-8");
       const lines = content.trim().split("\n").filter(Boolean);
 
       for (const line of lines.reverse()) {
-        if (entries.length >= count) break;
         try {
           entries.push(JSON.parse(line));
         } catch {
@@ -103,7 +110,11 @@ function getRecentJournal(count: number): JournalEntry[] {
     // Ignore errors
   }
 
-  return entries;
+  if (!projectPath) return entries.slice(0, count);
+
+  const own = entries.filter((e) => e.metadata?.projectPath === projectPath).slice(0, count);
+  const others = entries.filter((e) => !own.includes(e)).slice(0, count - own.length);
+  return entries.filter((e) => own.includes(e) || others.includes(e));
 }
 
 interface Schedule {
@@ -138,6 +149,8 @@ function getSchedules(): Schedule[] {
 
 interface FormatOptions {
   forCompaction?: boolean;
+  /** Project directory, whose journal entries are preferred */
+  projectPath?: string;
 }
 
 /**
@@ -146,7 +159,7 @@ interface FormatOptions {
 export async function formatContextForPrompt(
   options: FormatOptions = {}
 ): Promise<string | null> {
-  const { forCompaction = false } = options;
+  const { forCompaction = false, projectPath } = options;
   const stateRoot = getStateRoot();
   const identityPath = join(stateRoot, "state", "identity.md");
   const isFirstRun = !existsSync(identityPath);
@@ -179,7 +192,7 @@ Use this pre-detected info during onboarding instead of running detection script
   const workspace = readFileOrEmpty(join(stateRoot, "state", "workspace.md"));
 
   // Get recent journal
-  const journalEntries = getRecentJournal(forCompaction ? 10 : 5);
+  const journalEntries = getRecentJournal(forCompaction ? 10 : 5, projectPath);
   const journalFormatted = journalEntries
     .map((e) => {
       const ts = new Date(e.timestamp);
@@ -17,6 +17,8 @@ import { spawn } from "child_process";
 import { memoryTools } from "./tools.js";
 import { formatContextForPrompt, consumePendingContext, initializeStateRoot, getStateRoot } from "./context.js";
 import { logger } from "./logger.js";
+import { getProjectContext } from "../src/project.js";
+import { setLogger } from "../src/logger.js";
 
 
 /**
@@ -128,7 +130,10 @@ function installSkills(): void {
 // Track which sessions have had initial context injected
 const injectedSessions = new Set<string>();
 
-export const MacrodataPlugin: Plugin = async (_ctx: PluginInput) => {
+export const MacrodataPlugin: Plugin = async (ctx: PluginInput) => {
+  // Shared modules log to the console by default, which corrupts the TUI
+  setLogger(logger);
+
   // Initialize state directories
   initializeStateRoot();
 
@@ -141,6 +146,9 @@ export const MacrodataPlugin: Plugin = async (_ctx: PluginInput) => {
   // Install skills to global config on plugin load
   installSkills();
 
+  // Journal entries from this worktree are preferred in injected context
+  const projectPath = getProjectContext(ctx.worktree)?.path;
+
   return {
     // Inject context on first message and any pending updates from daemon
     "chat.message": async (input, output) => {
@@ -165,7 +173,7 @@ export const MacrodataPlugin: Plugin = async (_ctx: PluginInput) => {
         injectedSessions.add(input.sessionID);
 
         try {
-          const memoryContext = await formatContextForPrompt();
+          const memoryContext = await formatContextForPrompt({ projectPath });
 
           if (memoryContext) {
             const contextPart: Part = {
@@ -189,7 +197,7 @@ export const MacrodataPlugin: Plugin = async (_ctx: PluginInput) => {
     // Inject memory context before compaction
     "experimental.session.compacting": async (_input, output) => {
       try {
-        const memoryContext = await formatContextForPrompt({ forCompaction: true });
+        const memoryContext = await formatContextForPrompt({ forCompaction: true, projectPath });
 
         if (memoryContext) {
           output.context.push(memoryContext);
@@ -7,17 +7,17 @@
 import { existsSync, appendFileSync, mkdirSync, readFileSync, readdirSync } from "fs";
 import { join } from "path";
 import { getStateRoot } from "./context.js";
-import { indexJournalEntry } from "./search.js";
+import { withLock } from "../src/lock.js";
+import { indexJournalEntry, getJournalEntryId, type JournalDuplicate, type JournalEntryMetadata } from "./search.js";
+import { getProjectMetadata } from "../src/project.js";
 import { logger } from "./logger.js";
 
 interface JournalEntry {
+  id?: string;
   timestamp: string;
   topic: string;
   content: string;
-  metadata?: {
-    source?: string;
-    intent?: string;
-  };
+  metadata?: JournalEntryMetadata;
 }
 
 function ensureDirectories(): void {
@@ -46,12 +46,13 @@ function getTodayJournalPath(): string {
 
 /**
  * Log an entry to the journal
+ * Returns recent entries that look like the same observation.
  */
 export async function logJournal(
   topic: string,
   content: string,
-  metadata?: { source?: string; intent?: string }
-): Promise<void> {
+  metadata?: JournalEntryMetadata
+): Promise<JournalDuplicate[]> {
   ensureDirectories();
 
   const entry: JournalEntry = {
@@ -62,23 +63,47 @@ export async function logJournal(
   };
 
   const journalPath = getTodayJournalPath();
-  appendFileSync(journalPath, JSON.stringify(entry) + "\n");
+  withLock(journalPath, () => appendFileSync(journalPath, JSON.stringify(entry) + "\n"));
 
   // Index the entry for semantic search
   try {
-    await indexJournalEntry(entry);
+    return await indexJournalEntry(entry);
   } catch (err) {
     logger.error(`Failed to index journal entry: ${String(err)}`);
+    return [];
   }
 }
 
 /**
- * Get recent journal entries
+ * Filters for recent journal entries
  */
-export function getRecentJournal(count: number, topic?: string): JournalEntry[] {
+export interface JournalFilters {
+  topic?: string;
+  tag?: string;
+  project?: string;
+  /** Only entries logged in this project directory */
+  projectPath?: string;
+  /** At least this importance, 1-5 */
+  minImportance?: number;
+}
+
+function matchesFilters(entry: JournalEntry, filters: JournalFilters): boolean {
+  const { topic, tag, project, projectPath, minImportance } = filters;
+  if (topic && entry.topic !== topic) return false;
+  if (tag && !entry.metadata?.tags?.some((t) => t.toLowerCase() === tag.toLowerCase())) return false;
+  if (project && entry.metadata?.project?.toLowerCase() !== project.toLowerCase()) return false;
+  if (projectPath && entry.metadata?.projectPath !== projectPath) return false;
+  if (minImportance && (entry.metadata?.importance ?? 0) < minImportance) return false;
+  return true;
+}
+
+/**
+ * Get recent journal entries, newest first
+ */
+export function getRecentJournal(count: number, filters: JournalFilters = {}): JournalEntry[] {
   const stateRoot = getStateRoot();
   const journalDir = join(stateRoot, "journal");
-  let entries: JournalEntry[] = [];
+  const entries: JournalEntry[] = [];
 
   if (!existsSync(journalDir)) return entries;
 
@@ -89,15 +114,18 @@ export function getRecentJournal(count: number, topic?: string): JournalEntry[]
       .reverse();
 
     for (const file of files) {
-      if (entries.length >= count * 2) break; // Get more for filtering
+      if (entries.length >= count) break;
 
       const content = readFileSync(join(journalDir, file), "utf-8");
       const lines = content.trim().split("\n").filter(Boolean);
 
       for (const line of lines.reverse()) {
+        if (entries.length >= count) break;
         try {
           const entry = JSON.parse(line) as JournalEntry;
-          entries.push(entry);
+          if (!matchesFilters(entry, filters)) continue;
+          // Include the id, for editing the entry
+          entries.push({ id: getJournalEntryId(entry), ...entry });
         } catch {
           // Skip malformed lines
         }
@@ -107,23 +135,19 @@ export function getRecentJournal(count: number, topic?: string): JournalEntry[]
     // Ignore errors
   }
 
-  // Filter by topic if specified
-  if (topic) {
-    entries = entries.filter((e) => e.topic === topic);
-  }
-
-  return entries.slice(0, count);
+  return entries;
 }
 
 /**
  * Get recent conversation summaries
  */
 export function getRecentSummaries(count: number): JournalEntry[] {
-  return getRecentJournal(count, "conversation-summary");
+  return getRecentJournal(count, { topic: "conversation-summary" });
 }
 
 /**
  * Save a conversation summary
+ * `project` is the worktree the conversation was in, stamped on the entry.
  */
 export async function saveConversationSummary(options: {
   summary: string;
@@ -131,6 +155,7 @@ export async function saveConversationSummary(options: {
   openThreads?: string[];
   learnedPatterns?: string[];
   notes?: string;
+  project?: string;
 }): Promise<void> {
   const parts = [options.summary];
 
@@ -149,5 +174,6 @@ export async function saveConversationSummary(options: {
 
   await logJournal("conversation-summary", parts.join("\n"), {
     source: "opencode-plugin",
+    ...getProjectMetadata(options.project),
   });
 }
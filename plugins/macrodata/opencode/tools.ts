@@ -18,12 +18,25 @@ import {
   searchMemory,
   rebuildMemoryIndex,
   getMemoryIndexStats,
+  verifyMemoryIndex,
+  repairMemoryIndex,
+  getRelated,
+  findDuplicateClusters,
+  clusterMemory,
+  type RelatedItems,
 } from "./search.js";
+import { isIndexConsistent } from "../src/index-health.js";
+import { searchEverything } from "../src/search-everything.js";
+import { getProjectContext, getProjectMetadata } from "../src/project.js";
+import { getJournalRange } from "../src/journal-range.js";
+import { exportJournal } from "../src/journal-export.js";
+import { addWatch, loadWatches, removeWatch, DEFAULT_WATCH_THRESHOLD } from "../src/watches.js";
+import { updateJournalEntry, deleteJournalEntry, redactJournalEntry } from "../src/journal-edit.js";
 import {
   searchConversations,
   rebuildConversationIndex,
   getConversationIndexStats,
-} from "./conversations.js";
+} from "../src/opencode-conversations.js";
 import { logger } from "./logger.js";
 
 interface Schedule {
@@ -92,32 +105,171 @@ export const logJournalTool = tool({
     topic: tool.schema.string().describe("Short topic/category for the entry"),
     content: tool.schema.string().describe("The journal entry content"),
     agentIntent: tool.schema.string().optional().describe("Optional: why you're logging this"),
+    tags: tool.schema.array(tool.schema.string()).optional().describe("Tags for finding the entry later, e.g. ['decision', 'outage']"),
+    entities: tool.schema.array(tool.schema.string()).optional().describe("Entity files the entry is about, e.g. ['people/alice.md', 'projects/macrodata.md']"),
+    importance: tool.schema.number().int().min(1).max(5).optional().describe("1 (trivia) to 5 (critical), e.g. 4 or 5 for decisions that shape a project"),
+    project: tool.schema.string().optional().describe("Project the entry belongs to (default: the current worktree)"),
   },
-  async execute(args) {
+  async execute(args, context) {
     if (!args.topic || !args.content) {
       return JSON.stringify({ success: false, error: "Requires 'topic' and 'content'" });
     }
 
-    await logJournal(args.topic, args.content, {
+    const duplicates = await logJournal(args.topic, args.content, {
       source: "opencode-tool",
       intent: args.agentIntent,
+      ...getProjectMetadata(context.worktree),
+      ...(args.tags?.length && { tags: args.tags }),
+      ...(args.entities?.length && { entities: args.entities }),
+      ...(args.importance && { importance: args.importance }),
+      ...(args.project && { project: args.project }),
     });
 
-    return JSON.stringify({ success: true, message: `Logged to journal: ${args.topic}` });
+    return JSON.stringify({
+      success: true,
+      message: `Logged to journal: ${args.topic}`,
+      ...(duplicates.length > 0 && { possibleDuplicates: duplicates }),
+    });
   },
 });
 
 export const getRecentJournalTool = tool({
-  description: "Retrieve recent journal entries for context",
+  description: "Retrieve recent journal entries for context, optionally filtered by topic, tag, project or importance",
   args: {
     count: tool.schema.number().optional().describe("Number of entries to retrieve (default: 40)"),
+    topic: tool.schema.string().optional().describe("Only entries with this topic"),
+    tag: tool.schema.string().optional().describe("Only entries with this tag"),
+    project: tool.schema.string().optional().describe("Only entries for this project"),
+    minImportance: tool.schema.number().int().min(1).max(5).optional().describe("Only entries with at least this importance, 1-5"),
+    projectOnly: tool.schema.boolean().optional().describe("Only entries logged in the current worktree"),
   },
-  async execute(args) {
-    const entries = getRecentJournal(args.count || 40);
+  async execute(args, context) {
+    const entries = getRecentJournal(args.count || 40, {
+      topic: args.topic,
+      tag: args.tag,
+      project: args.project,
+      minImportance: args.minImportance,
+      ...(args.projectOnly && { projectPath: getProjectContext(context.worktree)?.path }),
+    });
     return JSON.stringify({ success: true, entries });
   },
 });
 
+export const getJournalRangeTool = tool({
+  description: "Get every journal entry between two dates as a timeline, grouped by day or topic. Use for reviews of a period, e.g. what happened between Monday and Friday.",
+  args: {
+    from: tool.schema.string().describe("Start of the range: an ISO date, a weekday such as monday, or relative such as yesterday, last week or 7d"),
+    to: tool.schema.string().optional().describe("End of the range (inclusive), in the same formats as from (default: now)"),
+    topic: tool.schema.string().optional().describe("Only entries with this topic"),
+    tag: tool.schema.string().optional().describe("Only entries with this tag"),
+    groupBy: tool.schema.enum(["day", "topic"]).optional().describe("Group entries by day or by topic (default: day)"),
+  },
+  async execute(args) {
+    if (!args.from) {
+      return JSON.stringify({ success: false, error: "Requires 'from'" });
+    }
+
+    try {
+      const timeline = getJournalRange({
+        from: args.from,
+        to: args.to,
+        topic: args.topic,
+        tag: args.tag,
+        groupBy: args.groupBy,
+      });
+      return JSON.stringify({ success: true, ...timeline });
+    } catch (err) {
+      return JSON.stringify({ success: false, error: String(err) });
+    }
+  },
+});
+
+export const exportJournalTool = tool({
+  description: "Export the journal as one Markdown note per day (front matter with date and tags, a heading per topic, wikilinks to entities), e.g. into an Obsidian or Logseq vault. The journal stays the source of truth: exported notes are overwritten on each export, and notes it didn't write are left alone.",
+  args: {
+    dir: tool.schema.string().optional().describe("Directory to write notes to, relative to the macrodata root if not absolute (default: export.dir from config.json)"),
+    since: tool.schema.string().optional().describe("Only export days from this date on: an ISO date, or relative such as last week or 7d (default: all)"),
+  },
+  async execute(args) {
+    try {
+      const result = exportJournal({ dir: args.dir, since: args.since });
+      return JSON.stringify({
+        success: true,
+        message:
+          `Exported ${result.written.length} day(s) to ${result.dir}` +
+          (result.skipped.length > 0 ? `, skipped ${result.skipped.length} with notes not written by the export` : ""),
+        ...result,
+      });
+    } catch (err) {
+      return JSON.stringify({ success: false, error: String(err) });
+    }
+  },
+});
+
+export const updateJournalEntryTool = tool({
+  description: "Correct a journal entry's topic or content. The entry keeps its id and timestamp, and the edit is recorded as a tombstone.",
+  args: {
+    id: tool.schema.string().describe("Journal entry id, from macrodata_get_recent_journal or macrodata_search_memory results"),
+    topic: tool.schema.string().optional().describe("New topic"),
+    content: tool.schema.string().optional().describe("New content, replacing the old"),
+    reason: tool.schema.string().optional().describe("Why the entry is being changed"),
+  },
+  async execute(args) {
+    if (!args.id || (!args.topic && !args.content)) {
+      return JSON.stringify({ success: false, error: "Requires 'id' and a new 'topic' or 'content'" });
+    }
+
+    const entry = await updateJournalEntry(args.id, { topic: args.topic, content: args.content }, args.reason);
+    if (!entry) {
+      return JSON.stringify({ success: false, error: `No journal entry with id ${args.id}` });
+    }
+    return JSON.stringify({ success: true, message: `Updated journal entry ${args.id}`, entry });
+  },
+});
+
+export const deleteJournalEntryTool = tool({
+  description: "Delete a journal entry from the journal and search index. A tombstone records the deletion, without the content.",
+  args: {
+    id: tool.schema.string().describe("Journal entry id, from macrodata_get_recent_journal or macrodata_search_memory results"),
+    reason: tool.schema.string().optional().describe("Why the entry is being deleted"),
+  },
+  async execute(args) {
+    if (!args.id) {
+      return JSON.stringify({ success: false, error: "Requires 'id'" });
+    }
+
+    const deleted = await deleteJournalEntry(args.id, args.reason);
+    return JSON.stringify({
+      success: deleted,
+      message: deleted ? `Deleted journal entry ${args.id}` : `No journal entry with id ${args.id}`,
+    });
+  },
+});
+
+export const redactJournalEntryTool = tool({
+  description: "Replace sensitive text in a journal entry (such as a secret or personal detail) with [redacted], in the journal and search index. A tombstone records the redaction, without the text.",
+  args: {
+    id: tool.schema.string().describe("Journal entry id, from macrodata_get_recent_journal or macrodata_search_memory results"),
+    text: tool.schema.string().optional().describe("Exact text to redact (default: the whole content)"),
+    reason: tool.schema.string().optional().describe("Why the text is being redacted"),
+  },
+  async execute(args) {
+    if (!args.id) {
+      return JSON.stringify({ success: false, error: "Requires 'id'" });
+    }
+
+    try {
+      const entry = await redactJournalEntry(args.id, { text: args.text, reason: args.reason });
+      if (!entry) {
+        return JSON.stringify({ success: false, error: `No journal entry with id ${args.id}` });
+      }
+      return JSON.stringify({ success: true, message: `Redacted journal entry ${args.id}` });
+    } catch (err) {
+      return JSON.stringify({ success: false, error: String(err) });
+    }
+  },
+});
+
 // --- Summary Tools ---
 
 export const saveConversationSummaryTool = tool({
@@ -129,7 +281,7 @@ export const saveConversationSummaryTool = tool({
     learnedPatterns: tool.schema.array(tool.schema.string()).optional().describe("New patterns learned about the user"),
     notes: tool.schema.string().optional().describe("Freeform notes for anything that doesn't fit structured fields"),
   },
-  async execute(args) {
+  async execute(args, context) {
     if (!args.summary) {
       return JSON.stringify({ success: false, error: "Requires 'summary'" });
     }
@@ -140,6 +292,7 @@ export const saveConversationSummaryTool = tool({
       openThreads: args.openThreads,
       learnedPatterns: args.learnedPatterns,
       notes: args.notes,
+      project: context.worktree,
     });
 
     return JSON.stringify({ success: true, message: "Conversation summary saved" });
@@ -160,22 +313,50 @@ export const getRecentSummariesTool = tool({
 // --- Search Tools ---
 
 export const searchMemoryTool = tool({
-  description: "Semantic search over your history - journal, state files, projects, people. Use to find relevant context.",
+  description: "Search over your history - journal, state files, projects, people. Combines semantic and keyword matching by default, so exact identifiers and error messages are found too. Use to find relevant context.",
   args: {
-    query: tool.schema.string().describe("Natural language query to search for"),
-    type: tool.schema.enum(["journal", "state", "project", "person", "meeting", "topic"]).optional().describe("Filter by content type"),
+    query: tool.schema.string().describe("Natural language query, or exact text such as an error message or identifier"),
+    type: tool.schema.string().optional().describe("Filter by content type: journal, person, project, topic, state, or any other entity category (e.g. documents)"),
     limit: tool.schema.number().optional().describe("Maximum results to return (default: 5)"),
-    since: tool.schema.string().optional().describe("Only include items after this ISO date"),
+    topic: tool.schema.union([tool.schema.string(), tool.schema.array(tool.schema.string())]).optional().describe("Only journal entries with this topic, or any of these topics"),
+    entrySource: tool.schema.string().optional().describe("Only journal entries logged with this source (e.g. conversation, cron)"),
+    intent: tool.schema.string().optional().describe("Only journal entries whose intent contains this text"),
+    path: tool.schema.string().optional().describe("Only items from this file or directory, as shown in source (e.g. people/alice.md, projects)"),
+    since: tool.schema.string().optional().describe("Only include items from this date on: an ISO date, or relative such as yesterday, last week or 7d"),
+    until: tool.schema.string().optional().describe("Only include items up to this date (inclusive), in the same formats as since"),
+    tags: tool.schema.union([tool.schema.string(), tool.schema.array(tool.schema.string())]).optional().describe("Only journal entries with this tag, or any of these tags"),
+    entity: tool.schema.string().optional().describe("Only journal entries linked to this entity file (e.g. people/alice.md)"),
+    project: tool.schema.string().optional().describe("Only journal entries for this project"),
+    minImportance: tool.schema.number().int().min(1).max(5).optional().describe("Only journal entries with at least this importance, 1-5"),
+    projectOnly: tool.schema.boolean().optional().describe("Only journal entries logged in the current worktree (default: all, with the current worktree's ranked higher)"),
+    mode: tool.schema.enum(["semantic", "keyword", "hybrid"]).optional().describe("'semantic' for meaning only, 'keyword' for exact terms only, 'hybrid' for both (default: hybrid)"),
+    explain: tool.schema.boolean().optional().describe("Include why each result ranked where it did: vector similarity, keyword score and the best-matching sentence"),
+    diversity: tool.schema.number().min(0).max(1).optional().describe("0-1: push down results that are near-duplicates of ones above, so more distinct context fits in the limit. 0 is off (default from config, usually 0); around 0.3 drops repeats"),
   },
-  async execute(args) {
+  async execute(args, context) {
     if (!args.query) {
       return JSON.stringify({ success: false, error: "Requires 'query'" });
     }
 
+    const currentProject = getProjectContext(context.worktree)?.path;
     const results = await searchMemory(args.query, {
       limit: args.limit || 5,
-      type: args.type as any,
+      type: args.type,
+      topic: args.topic,
+      entrySource: args.entrySource,
+      intent: args.intent,
+      path: args.path,
       since: args.since,
+      until: args.until,
+      tags: args.tags,
+      entity: args.entity,
+      project: args.project,
+      minImportance: args.minImportance,
+      ...(args.projectOnly && currentProject && { projectPath: currentProject }),
+      currentProject,
+      mode: args.mode,
+      explain: args.explain,
+      diversity: args.diversity,
     });
 
     if (results.length === 0) {
@@ -190,11 +371,13 @@ export const searchMemoryTool = tool({
       success: true,
       count: results.length,
       results: results.map((r) => ({
+        id: r.id,
         type: r.type,
         source: r.source,
         section: r.section,
         score: Math.round(r.score * 100) / 100,
         content: r.content.slice(0, 500),
+        explain: r.explain,
       })),
     });
   },
@@ -206,6 +389,8 @@ export const searchConversationsTool = tool({
     query: tool.schema.string().describe("Natural language query to search for"),
     projectOnly: tool.schema.boolean().optional().describe("Only search current project"),
     limit: tool.schema.number().optional().describe("Maximum results to return (default: 5)"),
+    explain: tool.schema.boolean().optional().describe("Include how each score was made up: similarity, time weight and project boost, plus the best-matching sentence"),
+    diversity: tool.schema.number().min(0).max(1).optional().describe("0-1: push down exchanges that are near-duplicates of ones above (default from config, usually 0)"),
   },
   async execute(args) {
     if (!args.query) {
@@ -215,6 +400,8 @@ export const searchConversationsTool = tool({
     const results = await searchConversations(args.query, {
       limit: args.limit || 5,
       projectOnly: args.projectOnly,
+      explain: args.explain,
+      diversity: args.diversity,
     });
 
     if (results.length === 0) {
@@ -235,7 +422,51 @@ export const searchConversationsTool = tool({
         score: Math.round(r.adjustedScore * 100) / 100,
         userPrompt: r.exchange.userPrompt.slice(0, 200),
         assistantSummary: r.exchange.assistantSummary.slice(0, 200),
+        explain: r.explain,
+      })),
+    });
+  },
+});
+
+export const searchEverythingTool = tool({
+  description: "Search memory, past OpenCode sessions and past Claude Code sessions at once, as one ranked list. Each result says where it came from and how to expand it.",
+  args: {
+    query: tool.schema.string().describe("What to search for"),
+    origins: tool.schema.array(tool.schema.enum(["memory", "claude-code", "opencode"])).optional().describe("Only search these sources (default: all)"),
+    limit: tool.schema.number().optional().describe("Maximum results to return (default: 10)"),
+  },
+  async execute(args, context) {
+    if (!args.query) {
+      return JSON.stringify({ success: false, error: "Requires 'query'" });
+    }
+
+    const { hits, skipped } = await searchEverything(args.query, {
+      limit: args.limit || 10,
+      origins: args.origins,
+      currentProject: getProjectContext(context.worktree)?.path,
+    });
+
+    if (hits.length === 0) {
+      return JSON.stringify({
+        success: true,
+        message: "No matches found",
+        results: [],
+        ...(skipped.length > 0 && { skipped }),
+      });
+    }
+
+    return JSON.stringify({
+      success: true,
+      count: hits.length,
+      results: hits.map((r) => ({
+        origin: r.origin,
+        title: r.title,
+        timestamp: r.timestamp,
+        score: Math.round(r.score * 100) / 100,
+        content: r.content.slice(0, 500),
+        expand: r.expand,
       })),
+      ...(skipped.length > 0 && { skipped }),
     });
   },
 });
@@ -280,6 +511,24 @@ export const getMemoryIndexStatsTool = tool({
   },
 });
 
+export const verifyMemoryIndexTool = tool({
+  description:
+    "Compare the memory index with the journal, entity, topic and state files. Reports orphaned items, missing or outdated sections and duplicate ids. Set repair to fix them without a full rebuild.",
+  args: {
+    repair: tool.schema.boolean().optional().describe("Fix the differences found (default: false)"),
+  },
+  async execute(args) {
+    const report = args.repair ? await repairMemoryIndex() : await verifyMemoryIndex();
+
+    return JSON.stringify({
+      success: true,
+      consistent: isIndexConsistent(report),
+      repaired: args.repair ?? false,
+      ...report,
+    });
+  },
+});
+
 // --- Reminder Tools ---
 
 export const scheduleReminderTool = tool({
@@ -378,40 +627,183 @@ export const listRemindersTool = tool({
   },
 });
 
+// --- Watch Tools ---
+
+export const addWatchTool = tool({
+  description: "Register a standing query, e.g. 'anything about the billing migration'. Whenever new journal entries, entity sections or conversations are indexed, the daemon reports matches as a watch-match update in the next session. Memory that already matches isn't reported.",
+  args: {
+    id: tool.schema.string().describe("Unique identifier for this watch"),
+    query: tool.schema.string().describe("What to watch for"),
+    threshold: tool.schema.number().optional().describe(`Minimum similarity (0-1) for a match (default: ${DEFAULT_WATCH_THRESHOLD}). Raise it if the watch is too noisy`),
+  },
+  async execute(args) {
+    if (!args.id || !args.query) {
+      return JSON.stringify({ success: false, error: "Requires 'id' and 'query'" });
+    }
+
+    try {
+      addWatch({
+        id: args.id,
+        query: args.query,
+        threshold: args.threshold ?? DEFAULT_WATCH_THRESHOLD,
+        createdAt: new Date().toISOString(),
+      });
+
+      return JSON.stringify({
+        success: true,
+        message: `Watching for: ${args.query}`,
+      });
+    } catch (err) {
+      return JSON.stringify({ success: false, error: String(err) });
+    }
+  },
+});
+
+export const listWatchesTool = tool({
+  description: "List standing watch queries",
+  args: {},
+  async execute() {
+    const watches = loadWatches().map(({ seen, ...watch }) => ({ ...watch, matched: seen?.length ?? 0 }));
+    return JSON.stringify({ success: true, watches });
+  },
+});
+
+export const removeWatchTool = tool({
+  description: "Remove a standing watch query",
+  args: {
+    id: tool.schema.string().describe("Watch ID to remove"),
+  },
+  async execute(args) {
+    if (!args.id) {
+      return JSON.stringify({ success: false, error: "Requires 'id'" });
+    }
+
+    const removed = removeWatch(args.id);
+
+    return JSON.stringify({
+      success: removed,
+      message: removed ? `Removed watch: ${args.id}` : `Watch not found: ${args.id}`,
+    });
+  },
+});
+
 // --- Related Items Tool ---
 
 export const getRelatedTool = tool({
-  description: "Get entries related to a specific memory item. Useful for exploring associative connections in your memory.",
+  description: "Get entries related to a specific memory item: similar items, entities that share links or mentions, and journal entries from the same day or topic. Useful for exploring associative connections in your memory.",
   args: {
-    id: tool.schema.string().describe("The ID of the memory item to find related entries for"),
+    id: tool.schema.string().describe("The ID of the memory item to find related entries for (from macrodata_search_memory results)"),
+    limit: tool.schema.number().optional().describe("Maximum items per group (default: 5)"),
   },
   async execute(args) {
     if (!args.id) {
       return JSON.stringify({ success: false, error: "Requires 'id'" });
     }
 
-    // TODO: Implement related items lookup
+    const related = await getRelated(args.id, { limit: args.limit || 5 });
+    if (!related) {
+      return JSON.stringify({ success: false, error: `No memory item with id ${args.id}` });
+    }
+
+    const summarize = (r: RelatedItems["item"]) => ({
+      id: r.id,
+      type: r.type,
+      source: r.source,
+      section: r.section,
+      timestamp: r.timestamp,
+      content: r.content.slice(0, 300),
+    });
+
     return JSON.stringify({
       success: true,
-      message: "Related items feature not yet implemented",
-      related: [],
+      item: summarize(related.item),
+      similar: related.similar.map((r) => ({ ...summarize(r), score: Math.round(r.score * 100) / 100 })),
+      linked: related.linked.map((r) => ({ ...summarize(r), reason: r.reason })),
+      journal: related.journal.map((r) => ({ ...summarize(r), reason: r.reason })),
     });
   },
 });
 
+// --- Consolidation Tools ---
+
+export const findDuplicatesTool = tool({
+  description: "Find clusters of near-duplicate journal entries, e.g. the same observation logged in several sessions. Use during memory maintenance to consolidate them.",
+  args: {
+    since: tool.schema.string().optional().describe("Only compare entries from this date on: an ISO date, or relative such as last month or 2w (default: 3m)"),
+    threshold: tool.schema.number().min(0).max(1).optional().describe("Minimum similarity, 0-1 (default 0.9)"),
+  },
+  async execute(args) {
+    try {
+      const clusters = await findDuplicateClusters({ since: args.since, threshold: args.threshold });
+
+      return JSON.stringify({
+        success: true,
+        count: clusters.length,
+        clusters: clusters.map((cluster) => ({
+          minSimilarity: Math.round(cluster.minSimilarity * 100) / 100,
+          entries: cluster.entries.map((e) => ({ ...e, content: e.content.slice(0, 300) })),
+        })),
+      });
+    } catch (err) {
+      return JSON.stringify({ success: false, error: String(err) });
+    }
+  },
+});
+
+export const getTopicMapTool = tool({
+  description: "Cluster recent journal entries, together with entity and topic files, by theme. Each cluster lists its most frequent journal topics, the files it relates to and its most representative entries. Use during distillation or dreamtime to consolidate each theme into the right file instead of reading raw journals.",
+  args: {
+    since: tool.schema.string().optional().describe("Only journal entries from this date on: an ISO date, or relative such as last week or 7d (default: 2w)"),
+    until: tool.schema.string().optional().describe("Only journal entries up to this date (inclusive), in the same formats as since"),
+    clusters: tool.schema.number().int().min(1).optional().describe("Number of clusters (default: based on how much memory there is)"),
+  },
+  async execute(args) {
+    try {
+      const clusters = await clusterMemory({ since: args.since, until: args.until, clusters: args.clusters });
+
+      return JSON.stringify({
+        success: true,
+        count: clusters.length,
+        clusters: clusters.map((cluster) => ({
+          ...cluster,
+          representatives: cluster.representatives.map((r) => ({
+            id: r.id,
+            timestamp: r.timestamp,
+            content: r.content.slice(0, 300),
+          })),
+        })),
+      });
+    } catch (err) {
+      return JSON.stringify({ success: false, error: String(err) });
+    }
+  },
+});
+
 // Export all tools as a collection
 export const memoryTools = {
   macrodata_log_journal: logJournalTool,
   macrodata_get_recent_journal: getRecentJournalTool,
+  macrodata_get_journal_range: getJournalRangeTool,
+  macrodata_export_journal: exportJournalTool,
+  macrodata_update_journal_entry: updateJournalEntryTool,
+  macrodata_delete_journal_entry: deleteJournalEntryTool,
+  macrodata_redact_journal_entry: redactJournalEntryTool,
   macrodata_save_conversation_summary: saveConversationSummaryTool,
   macrodata_get_recent_summaries: getRecentSummariesTool,
   macrodata_search_memory: searchMemoryTool,
   macrodata_search_conversations: searchConversationsTool,
+  macrodata_search_everything: searchEverythingTool,
   macrodata_rebuild_memory_index: rebuildMemoryIndexTool,
   macrodata_get_memory_index_stats: getMemoryIndexStatsTool,
+  macrodata_verify_memory_index: verifyMemoryIndexTool,
   macrodata_schedule_reminder: scheduleReminderTool,
   macrodata_schedule_once: scheduleOnceTool,
   macrodata_remove_reminder: removeReminderTool,
   macrodata_list_reminders: listRemindersTool,
+  macrodata_add_watch: addWatchTool,
+  macrodata_list_watches: listWatchesTool,
+  macrodata_remove_watch: removeWatchTool,
   macrodata_get_related: getRelatedTool,
+  macrodata_find_duplicates: findDuplicatesTool,
+  macrodata_get_topic_map: getTopicMapTool,
 };
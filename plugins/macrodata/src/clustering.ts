@@ -0,0 +1,93 @@
+/**
+ * Vector clustering for the topic map
+ *
+ * Spherical k-means: items are compared by cosine similarity and each
+ * centre is the mean direction of its members. Starting centres are
+ * picked farthest-first rather than at random, so the same memory always
+ * gives the same clusters.
+ */
+
+import { cosineSimilarity } from "./ranking.js";
+
+export interface KMeansResult {
+  /** Cluster of each vector, as an index into centroids */
+  assignments: number[];
+  centroids: number[][];
+}
+
+const MAX_ITERATIONS = 25;
+
+/**
+ * Mean of the vectors, scaled to unit length
+ */
+function meanDirection(vectors: ArrayLike<number>[]): number[] {
+  const mean = Array.from({ length: vectors[0].length }, () => 0);
+  for (const vector of vectors) {
+    for (let i = 0; i < mean.length; i++) mean[i] += vector[i];
+  }
+  const norm = Math.sqrt(mean.reduce((sum, x) => sum + x * x, 0)) || 1;
+  return mean.map((x) => x / norm);
+}
+
+function nearest(vector: ArrayLike<number>, centroids: ArrayLike<number>[]): number {
+  let best = 0;
+  let bestSimilarity = -Infinity;
+  centroids.forEach((centroid, i) => {
+    const similarity = cosineSimilarity(vector, centroid);
+    if (similarity > bestSimilarity) {
+      best = i;
+      bestSimilarity = similarity;
+    }
+  });
+  return best;
+}
+
+/**
+ * Pick k starting centres: the vector closest to the mean of all of them,
+ * then repeatedly the vector least similar to every centre picked so far
+ */
+function initialCentroids(vectors: ArrayLike<number>[], k: number): number[][] {
+  const overall = meanDirection(vectors);
+  const picked = [nearest(overall, vectors)];
+  const closest = vectors.map((v) => cosineSimilarity(v, vectors[picked[0]]));
+
+  while (picked.length < k) {
+    let next = -1;
+    for (let i = 0; i < vectors.length; i++) {
+      if (picked.includes(i)) continue;
+      if (next === -1 || closest[i] < closest[next]) next = i;
+    }
+    picked.push(next);
+    vectors.forEach((v, i) => {
+      closest[i] = Math.max(closest[i], cosineSimilarity(v, vectors[next]));
+    });
+  }
+
+  return picked.map((i) => Array.from(vectors[i]));
+}
+
+/**
+ * Group vectors into at most k clusters
+ * Stops when no vector changes cluster. A cluster that loses all its
+ * members keeps its centre, so some of the k may end up empty.
+ */
+export function kMeans(vectors: ArrayLike<number>[], k: number): KMeansResult {
+  if (vectors.length === 0 || k < 1) return { assignments: [], centroids: [] };
+
+  const centroids = initialCentroids(vectors, Math.min(k, vectors.length));
+  let assignments: number[] = [];
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = vectors.map((v) => nearest(v, centroids));
+    const changed = next.some((cluster, i) => cluster !== assignments[i]);
+    assignments = next;
+    if (!changed) break;
+
+    centroids.forEach((_, c) => {
+      const members = vectors.filter((_, i) => assignments[i] === c);
+      if (members.length > 0) centroids[c] = meanDirection(members);
+    });
+  }
+
+  return { assignments, centroids };
+}
@@ -7,10 +7,61 @@
 
 import { existsSync, readFileSync } from "fs";
 import { homedir } from "os";
-import { join } from "path";
+import { join, resolve } from "path";
+import { logger } from "./logger.js";
 
 const DEFAULT_ROOT = join(homedir(), ".config", "macrodata");
 
+/**
+ * Embedding model configuration (the "embeddings" key in config.json)
+ *
+ * - transformers: a local Transformers.js feature-extraction model
+ * - openai: any server exposing an OpenAI-compatible /embeddings endpoint
+ *   (llama.cpp server, Ollama, LM Studio, ...)
+ * - hash: hashed bag of words, with no model at all. Texts are only similar
+ *   if they share words, so it's for tests and machines that can't run a
+ *   model, not for real use.
+ */
+export type EmbeddingConfig =
+  | {
+      provider: "transformers";
+      model: string;
+      quantized?: boolean;
+      pooling?: "mean" | "cls";
+    }
+  | {
+      provider: "openai";
+      model: string;
+      url: string;
+      apiKey?: string;
+    }
+  | {
+      provider: "hash";
+      dimensions?: number;
+    };
+
+export const DEFAULT_EMBEDDING_CONFIG: EmbeddingConfig = {
+  provider: "transformers",
+  model: "Xenova/all-MiniLM-L6-v2",
+  quantized: true,
+};
+
+/**
+ * Read ~/.config/macrodata/config.json
+ * Returns an empty object if missing or unparseable.
+ */
+function readConfigFile(): Record<string, unknown> {
+  const configPath = join(DEFAULT_ROOT, "config.json");
+  if (existsSync(configPath)) {
+    try {
+      return JSON.parse(readFileSync(configPath, "utf-8"));
+    } catch {
+      // Ignore parse errors
+    }
+  }
+  return {};
+}
+
 /**
  * Get the macrodata state root directory.
  * Priority: MACRODATA_ROOT env > ~/.config/macrodata/config.json > ~/.config/macrodata
@@ -24,17 +75,104 @@ export function getStateRoot(): string {
   }
 
   // Check config file in default location
-  const configPath = join(DEFAULT_ROOT, "config.json");
-  if (existsSync(configPath)) {
+  const config = readConfigFile();
+  if (typeof config.root === "string" && config.root) return config.root;
+
+  return DEFAULT_ROOT;
+}
+
+/**
+ * Read the "embeddings" config
+ * MACRODATA_EMBEDDINGS, as JSON, takes precedence over config.json, the
+ * way MACRODATA_ROOT does for the state root (useful for testing).
+ */
+function readEmbeddingsConfig(): unknown {
+  const override = process.env.MACRODATA_EMBEDDINGS;
+  if (override) {
     try {
-      const config = JSON.parse(readFileSync(configPath, "utf-8"));
-      if (config.root) return config.root;
+      return JSON.parse(override);
     } catch {
-      // Ignore parse errors
+      logger.error("[Config] MACRODATA_EMBEDDINGS is not valid JSON, ignoring it");
     }
   }
+  return readConfigFile().embeddings;
+}
 
-  return DEFAULT_ROOT;
+/**
+ * Get the embedding model configuration
+ * Falls back to the bundled all-MiniLM-L6-v2 model if not configured.
+ */
+export function getEmbeddingConfig(): EmbeddingConfig {
+  const embeddings = readEmbeddingsConfig() as Partial<EmbeddingConfig> | undefined;
+  if (!embeddings || typeof embeddings !== "object") return DEFAULT_EMBEDDING_CONFIG;
+
+  if (embeddings.provider === "hash") {
+    return { ...embeddings, provider: "hash" } as EmbeddingConfig;
+  }
+
+  if (embeddings.provider === "openai") {
+    if (!embeddings.url || !embeddings.model) {
+      logger.error("[Config] embeddings.provider 'openai' requires 'url' and 'model', using default model");
+      return DEFAULT_EMBEDDING_CONFIG;
+    }
+    return { ...embeddings, provider: "openai" } as EmbeddingConfig;
+  }
+
+  return { ...DEFAULT_EMBEDDING_CONFIG, ...embeddings, provider: "transformers" } as EmbeddingConfig;
+}
+
+/**
+ * Search defaults (the "search" key in config.json)
+ *
+ * - diversity: 0-1, how strongly results similar to ones already picked
+ *   are pushed down (maximal marginal relevance). 0 turns it off.
+ */
+export interface SearchConfig {
+  diversity: number;
+}
+
+export const DEFAULT_SEARCH_CONFIG: SearchConfig = {
+  diversity: 0,
+};
+
+/**
+ * Get search defaults, ignoring values that are out of range
+ */
+export function getSearchConfig(): SearchConfig {
+  const search = readConfigFile().search as Partial<SearchConfig> | undefined;
+  const diversity = search?.diversity;
+  if (typeof diversity !== "number" || diversity < 0 || diversity > 1) return DEFAULT_SEARCH_CONFIG;
+  return { diversity };
+}
+
+/**
+ * Journal export (the "export" key in config.json)
+ *
+ * - dir: directory to write Markdown daily notes to, e.g. a folder in an
+ *   Obsidian or Logseq vault. A leading ~ is the home directory, and a
+ *   relative path is relative to the state root.
+ * - mirror: keep the notes in sync from the daemon as the journal changes
+ */
+export interface ExportConfig {
+  dir: string;
+  mirror: boolean;
+}
+
+/**
+ * Get the journal export settings, or null if no directory is configured
+ */
+export function getExportConfig(): ExportConfig | null {
+  const config = readConfigFile().export as Partial<ExportConfig> | undefined;
+  if (typeof config?.dir !== "string" || !config.dir) return null;
+  return { dir: resolveExportDir(config.dir), mirror: config.mirror === true };
+}
+
+/**
+ * Resolve an export directory the way export.dir is: a leading ~ is the
+ * home directory, and a relative path is relative to the state root
+ */
+export function resolveExportDir(dir: string): string {
+  return dir.startsWith("~/") ? join(homedir(), dir.slice(2)) : resolve(getStateRoot(), dir);
 }
 
 export function getStateDir(): string {
@@ -64,3 +202,11 @@ export function getTopicsDir(): string {
 export function getRemindersDir(): string {
   return join(getStateRoot(), "reminders");
 }
+
+export function getWatchesDir(): string {
+  return join(getStateRoot(), "watches");
+}
+
+export function getTombstonesDir(): string {
+  return join(getStateRoot(), "tombstones");
+}
@@ -13,9 +13,15 @@
 import { readdirSync, readFileSync, existsSync, statSync, writeFileSync, mkdirSync } from "fs";
 import { join, basename } from "path";
 import { homedir } from "os";
-import { embed, embedBatch } from "./embeddings.js";
-import { LocalIndex } from "vectra";
-import { getIndexDir } from "./config.js";
+import { embed, embedBatch, getEmbeddingProvider } from "./embeddings.js";
+import { pruneEmbeddingCache } from "./embedding-cache.js";
+import { getIndexDir, getSearchConfig } from "./config.js";
+import { createIndexReport, type IndexReport } from "./index-health.js";
+import { highlightMatch, maximalMarginalRelevance } from "./ranking.js";
+import { checkIndexMeta } from "./index-meta.js";
+import { logger } from "./logger.js";
+import { withLock } from "./lock.js";
+import { VectorStore, migrateVectraIndex, type ItemMetadata, type StoreItemInput } from "./vector-store.js";
 
 // Index state tracking for incremental updates
 interface IndexState {
@@ -84,40 +90,95 @@ export interface ConversationSearchResult {
   exchange: ConversationExchange;
   score: number;
   adjustedScore: number; // After time weighting and project boost
+  explain?: ConversationScoreExplanation;
 }
 
-// Cached index with path tracking
-let convIndex: LocalIndex | null = null;
-let convIndexPath: string | null = null;
+/**
+ * Factors of a result's adjusted score: similarity * timeWeight * projectBoost
+ */
+export interface ConversationScoreExplanation {
+  similarity: number;
+  timeWeight: number;
+  /** 1.5 for the current project, otherwise 1 */
+  projectBoost: number;
+  /** Sentence of the exchange that best matches the query, terms in ** */
+  highlight: string;
+}
+
+// Score multiplier for exchanges from the current project
+const PROJECT_BOOST = 1.5;
+
+// Bump when the text embedded for each exchange changes
+const CHUNKING_VERSION = 1;
 
-async function getConversationIndex(): Promise<LocalIndex> {
+// Persistent cache of exchange vectors, so rebuilds only embed new exchanges
+const EMBEDDING_CACHE = "conversations";
+
+// Cached index with path and model tracking
+let convIndex: VectorStore | null = null;
+let convIndexModel: string | null = null;
+
+/**
+ * Get or create the conversation index
+ * An index from before the SQLite store is migrated. If it was built with
+ * a different model, it is cleared along with the incremental state so the
+ * next update re-embeds every conversation.
+ */
+async function getConversationIndex(): Promise<VectorStore> {
   const currentIndexDir = getIndexDir();
-  const currentIndexPath = join(currentIndexDir, "conversations");
+  const currentIndexPath = join(currentIndexDir, "conversations.sqlite");
+  const currentModel = getEmbeddingProvider().id;
 
-  // Invalidate cache if path changed
-  if (convIndex && convIndexPath !== currentIndexPath) {
+  // Invalidate cache if path or model changed
+  if (convIndex && (convIndex.path !== currentIndexPath || convIndexModel !== currentModel)) {
+    convIndex.close();
     convIndex = null;
-    convIndexPath = null;
+    convIndexModel = null;
   }
 
   if (convIndex) return convIndex;
 
-  if (!existsSync(currentIndexDir)) {
-    const { mkdirSync } = await import("fs");
-    mkdirSync(currentIndexDir, { recursive: true });
-  }
+  convIndex = new VectorStore(currentIndexPath);
+  convIndexModel = currentModel;
 
-  convIndex = new LocalIndex(currentIndexPath);
-  convIndexPath = currentIndexPath;
+  const migrated = migrateVectraIndex(convIndex, join(currentIndexDir, "conversations"), (meta) =>
+    `${meta.userPrompt ?? ""}\n${meta.assistantSummary ?? ""}`
+  );
+  if (migrated > 0) {
+    logger.log(`[Conversations] Migrated ${migrated} exchanges from the Vectra index`);
+  }
 
-  if (!(await convIndex.isIndexCreated())) {
-    console.log("[Conversations] Creating new conversation index...");
-    await convIndex.createIndex();
+  const mismatch = await checkIndexMeta(convIndex, CHUNKING_VERSION);
+  if (mismatch) {
+    logger.log(`[Conversations] Index ${mismatch}. Cleared it to be re-indexed`);
+    saveIndexState({ files: {}, lastUpdate: "" });
   }
 
   return convIndex;
 }
 
+/**
+ * Build the stored item for an exchange
+ */
+function exchangeToStoreItem(exchange: ConversationExchange, vector: number[]): StoreItemInput {
+  return {
+    id: exchange.id,
+    vector,
+    metadata: {
+      userPrompt: exchange.userPrompt,
+      assistantSummary: exchange.assistantSummary,
+      project: exchange.project,
+      projectPath: exchange.projectPath,
+      branch: exchange.branch || "",
+      timestamp: exchange.timestamp,
+      sessionId: exchange.sessionId,
+      sessionPath: exchange.sessionPath,
+      messageUuid: exchange.messageUuid,
+    },
+    text: `${exchange.userPrompt}\n${exchange.assistantSummary}`,
+  };
+}
+
 /**
  * Decode project directory name back to path
  * e.g., "-Users-mkane-Repos-workers-sdk" -> "/Users/mkane/Repos/workers-sdk"
@@ -296,7 +357,7 @@ function parseConversationFile(filePath: string, projectPath: string): Conversat
       }
     }
   } catch (err) {
-    console.error(`[Conversations] Failed to parse ${filePath}: ${String(err)}`);
+    logger.error(`[Conversations] Failed to parse ${filePath}: ${String(err)}`);
   }
 
   return exchanges;
@@ -338,7 +399,7 @@ function* scanConversationFiles(): Generator<{ filePath: string; projectPath: st
  * Rebuild the conversation index from scratch
  */
 export async function rebuildConversationIndex(): Promise<{ exchangeCount: number }> {
-  console.log("[Conversations] Starting full index rebuild...");
+  logger.log("[Conversations] Starting full index rebuild...");
   const startTime = Date.now();
 
   const allExchanges: ConversationExchange[] = [];
@@ -353,7 +414,7 @@ export async function rebuildConversationIndex(): Promise<{ exchangeCount: numbe
     };
   }
 
-  console.log(`[Conversations] Found ${allExchanges.length} exchanges`);
+  logger.log(`[Conversations] Found ${allExchanges.length} exchanges`);
 
   if (allExchanges.length === 0) {
     saveIndexState(newState);
@@ -365,35 +426,21 @@ export async function rebuildConversationIndex(): Promise<{ exchangeCount: numbe
     `${e.project}${e.branch ? ` (${e.branch})` : ""}: ${e.userPrompt}`
   );
 
-  console.log(`[Conversations] Generating embeddings...`);
-  const vectors = await embedBatch(texts);
+  logger.log(`[Conversations] Generating embeddings...`);
+  const vectors = await embedBatch(texts, { cache: EMBEDDING_CACHE });
 
   const idx = await getConversationIndex();
 
   // Index all exchanges
-  for (let i = 0; i < allExchanges.length; i++) {
-    const exchange = allExchanges[i];
-    await idx.upsertItem({
-      id: exchange.id,
-      vector: vectors[i],
-      metadata: {
-        userPrompt: exchange.userPrompt,
-        assistantSummary: exchange.assistantSummary,
-        project: exchange.project,
-        projectPath: exchange.projectPath,
-        branch: exchange.branch || "",
-        timestamp: exchange.timestamp,
-        sessionId: exchange.sessionId,
-        sessionPath: exchange.sessionPath,
-        messageUuid: exchange.messageUuid,
-      },
-    });
-  }
+  withLock(idx.path, () =>
+    idx.upsert(allExchanges.map((exchange, i) => exchangeToStoreItem(exchange, vectors[i])))
+  );
 
   saveIndexState(newState);
+  pruneEmbeddingCache(EMBEDDING_CACHE, getEmbeddingProvider().id, texts);
 
   const duration = Date.now() - startTime;
-  console.log(`[Conversations] Full rebuild complete in ${duration}ms`);
+  logger.log(`[Conversations] Full rebuild complete in ${duration}ms`);
 
   return { exchangeCount: allExchanges.length };
 }
@@ -402,15 +449,16 @@ export async function rebuildConversationIndex(): Promise<{ exchangeCount: numbe
  * Incrementally update the conversation index (only changed files)
  */
 export async function updateConversationIndex(): Promise<{ exchangeCount: number; filesUpdated: number; skipped: number }> {
-  console.log("[Conversations] Starting incremental update...");
+  logger.log("[Conversations] Starting incremental update...");
   const startTime = Date.now();
 
-  const state = loadIndexState();
+  // Open the index first, as a model change resets the state
   const idx = await getConversationIndex();
+  const state = loadIndexState();
 
-  // Check if index exists - if not, do full rebuild
-  if (!(await idx.isIndexCreated())) {
-    console.log("[Conversations] No existing index, doing full rebuild");
+  // Empty index - do full rebuild
+  if (idx.count() === 0) {
+    logger.log("[Conversations] No existing index, doing full rebuild");
     const result = await rebuildConversationIndex();
     return { exchangeCount: result.exchangeCount, filesUpdated: 0, skipped: 0 };
   }
@@ -434,31 +482,7 @@ export async function updateConversationIndex(): Promise<{ exchangeCount: number
     // File is new or modified - parse and index
     const exchanges = parseConversationFile(filePath, projectPath);
 
-    if (exchanges.length > 0) {
-      const texts = exchanges.map(e =>
-        `${e.project}${e.branch ? ` (${e.branch})` : ""}: ${e.userPrompt}`
-      );
-      const vectors = await embedBatch(texts);
-
-      for (let i = 0; i < exchanges.length; i++) {
-        const exchange = exchanges[i];
-        await idx.upsertItem({
-          id: exchange.id,
-          vector: vectors[i],
-          metadata: {
-            userPrompt: exchange.userPrompt,
-            assistantSummary: exchange.assistantSummary,
-            project: exchange.project,
-            projectPath: exchange.projectPath,
-            branch: exchange.branch || "",
-            timestamp: exchange.timestamp,
-            sessionId: exchange.sessionId,
-            sessionPath: exchange.sessionPath,
-            messageUuid: exchange.messageUuid,
-          },
-        });
-      }
-    }
+    await indexExchanges(idx, exchanges);
 
     state.files[filePath] = {
       mtime,
@@ -479,11 +503,134 @@ export async function updateConversationIndex(): Promise<{ exchangeCount: number
   saveIndexState(state);
 
   const duration = Date.now() - startTime;
-  console.log(`[Conversations] Incremental update complete in ${duration}ms (${filesUpdated} files updated, ${skipped} skipped)`);
+  logger.log(`[Conversations] Incremental update complete in ${duration}ms (${filesUpdated} files updated, ${skipped} skipped)`);
 
   return { exchangeCount: totalExchanges, filesUpdated, skipped };
 }
 
+/**
+ * Embed exchanges and add them to the index
+ */
+async function indexExchanges(idx: VectorStore, exchanges: ConversationExchange[]): Promise<void> {
+  if (exchanges.length === 0) return;
+
+  const texts = exchanges.map(e =>
+    `${e.project}${e.branch ? ` (${e.branch})` : ""}: ${e.userPrompt}`
+  );
+  const vectors = await embedBatch(texts, { cache: EMBEDDING_CACHE });
+
+  withLock(idx.path, () =>
+    idx.upsert(exchanges.map((exchange, i) => exchangeToStoreItem(exchange, vectors[i])))
+  );
+}
+
+/**
+ * Compare the index with the conversation files and the incremental state
+ *
+ * Exchanges from session files that have since been deleted are kept on
+ * purpose, so they are noted rather than reported as orphaned. Returns the
+ * report with the files that need re-parsing.
+ */
+function diffConversationIndex(
+  idx: VectorStore,
+  state: IndexState
+): { report: IndexReport; filesToIndex: Array<{ filePath: string; projectPath: string; mtime: number }> } {
+  const report = createIndexReport();
+  const filesToIndex: Array<{ filePath: string; projectPath: string; mtime: number }> = [];
+  const stored = new Map(idx.list().map((item) => [item.id, String(item.metadata.sessionPath)]));
+
+  // Which file the state says each exchange came from
+  const tracked = new Map<string, string>();
+  for (const [filePath, file] of Object.entries(state.files)) {
+    for (const id of file.exchangeIds) {
+      if (tracked.has(id)) {
+        report.duplicates.push({ id, source: filePath });
+      } else {
+        tracked.set(id, filePath);
+      }
+    }
+  }
+
+  for (const file of scanConversationFiles()) {
+    const cached = state.files[file.filePath];
+    const missingIds = cached?.exchangeIds.filter((id) => !stored.has(id)) ?? [];
+
+    if (!cached || cached.mtime !== file.mtime) {
+      report.missing.push({ source: file.filePath });
+      filesToIndex.push(file);
+    } else if (missingIds.length > 0) {
+      report.missing.push(...missingIds.map((id) => ({ id, source: file.filePath })));
+      filesToIndex.push(file);
+    }
+  }
+
+  let retained = 0;
+  for (const [id, sessionPath] of stored) {
+    if (tracked.has(id)) continue;
+    if (existsSync(sessionPath)) {
+      report.orphaned.push({ id, source: sessionPath });
+    } else {
+      retained++;
+    }
+  }
+
+  if (retained > 0) {
+    report.notes.push(`${retained} exchanges are kept from session files that have since been deleted.`);
+  }
+
+  return { report, filesToIndex };
+}
+
+/**
+ * Check the conversation index against the session files and its state
+ */
+export async function verifyConversationIndex(): Promise<IndexReport> {
+  const idx = await getConversationIndex();
+  return diffConversationIndex(idx, loadIndexState()).report;
+}
+
+/**
+ * Fix the differences verifyConversationIndex finds, without a full rebuild
+ * Re-parses only the files with missing exchanges. Returns what was found.
+ */
+export async function repairConversationIndex(): Promise<IndexReport> {
+  const idx = await getConversationIndex();
+  const state = loadIndexState();
+  const { report, filesToIndex } = diffConversationIndex(idx, state);
+
+  for (const { filePath, projectPath, mtime } of filesToIndex) {
+    const exchanges = parseConversationFile(filePath, projectPath);
+    await indexExchanges(idx, exchanges);
+    state.files[filePath] = { mtime, exchangeIds: exchanges.map(e => e.id) };
+  }
+
+  // List each exchange under one file only
+  const seen = new Set<string>();
+  for (const file of Object.values(state.files)) {
+    file.exchangeIds = file.exchangeIds.filter((id) => {
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+  }
+
+  // Re-parsing can leave exchanges that are no longer in their file
+  const tracked = new Set(Object.values(state.files).flatMap((file) => file.exchangeIds));
+  withLock(idx.path, () => {
+    const orphaned = idx
+      .list()
+      .filter((item) => !tracked.has(item.id) && existsSync(String(item.metadata.sessionPath)))
+      .map((item) => item.id);
+    idx.delete(orphaned);
+  });
+
+  saveIndexState(state);
+  logger.log(
+    `[Conversations] Repaired index: ${filesToIndex.length} files re-indexed, ${report.orphaned.length} orphaned exchanges removed`
+  );
+  return report;
+}
+
 /**
  * Calculate time-based weight for scoring
  * Recent = higher weight
@@ -508,29 +655,40 @@ export async function searchConversations(
     currentProject?: string;  // Path to current project for boosting
     limit?: number;
     projectOnly?: boolean;    // Only search current project
+    explain?: boolean;        // Include the score breakdown
+    diversity?: number;       // 0-1, push down exchanges like ones ranked above (default from config)
+    indexedSince?: number;    // Only exchanges indexed at or after this time (ms since epoch)
   } = {}
 ): Promise<ConversationSearchResult[]> {
-  const { currentProject, limit = 5, projectOnly = false } = options;
+  const {
+    currentProject,
+    limit = 5,
+    projectOnly = false,
+    explain = false,
+    diversity = getSearchConfig().diversity,
+    indexedSince,
+  } = options;
   
   const idx = await getConversationIndex();
-  const stats = await idx.listItems();
   
-  if (stats.length === 0) {
-    console.log("[Conversations] Index is empty");
+  if (idx.count() === 0) {
+    logger.log("[Conversations] Index is empty");
     return [];
   }
   
   const queryVector = await embed(query);
   
-  // Get more results than needed for filtering/reranking
-  const results = await idx.queryItems(queryVector, limit * 3);
+  // Get more results than needed for reranking, only from the current project if requested
+  const filter = projectOnly && currentProject ? (meta: ItemMetadata) => meta.projectPath === currentProject : undefined;
+  const results = idx.query(queryVector, limit * 3, filter, { indexedSince, withVectors: diversity > 0 });
+  const vectors = new Map(results.map((r) => [r.id, r.vector]));
   
   // Convert to search results with adjusted scoring
   const searchResults: ConversationSearchResult[] = results.map(r => {
-    const meta = r.item.metadata as Record<string, string>;
+    const meta = r.metadata as Record<string, string>;
     
     const exchange: ConversationExchange = {
-      id: r.item.id,
+      id: r.id,
       userPrompt: meta.userPrompt,
       assistantSummary: meta.assistantSummary,
       project: meta.project,
@@ -542,34 +700,33 @@ export async function searchConversations(
       messageUuid: meta.messageUuid,
     };
     
-    // Calculate adjusted score
-    let adjustedScore = r.score;
-    
-    // Time weighting
-    adjustedScore *= getTimeWeight(exchange.timestamp);
-    
-    // Project boost (1.5x for current project)
-    if (currentProject && exchange.projectPath === currentProject) {
-      adjustedScore *= 1.5;
-    }
+    // Calculate adjusted score, weighted by time and boosted for the current project
+    const timeWeight = getTimeWeight(exchange.timestamp);
+    const projectBoost = currentProject && exchange.projectPath === currentProject ? PROJECT_BOOST : 1;
+    const adjustedScore = r.score * timeWeight * projectBoost;
     
     return {
       exchange,
       score: r.score,
       adjustedScore,
+      ...(explain && {
+        explain: {
+          similarity: r.score,
+          timeWeight,
+          projectBoost,
+          highlight: highlightMatch(query, `${exchange.userPrompt}\n${exchange.assistantSummary}`),
+        },
+      }),
     };
   });
   
-  // Filter to current project if requested
-  let filtered = searchResults;
-  if (projectOnly && currentProject) {
-    filtered = searchResults.filter(r => r.exchange.projectPath === currentProject);
-  }
-  
-  // Sort by adjusted score and limit
-  return filtered
-    .sort((a, b) => b.adjustedScore - a.adjustedScore)
-    .slice(0, limit);
+  // Sort by adjusted score, then spread across topics if asked, and limit
+  return maximalMarginalRelevance(searchResults.sort((a, b) => b.adjustedScore - a.adjustedScore), {
+    limit,
+    diversity,
+    score: (r) => r.adjustedScore,
+    vector: (r) => vectors.get(r.exchange.id),
+  });
 }
 
 /**
@@ -670,6 +827,5 @@ export async function expandConversation(
  */
 export async function getConversationIndexStats(): Promise<{ exchangeCount: number }> {
   const idx = await getConversationIndex();
-  const items = await idx.listItems();
-  return { exchangeCount: items.length };
+  return { exchangeCount: idx.count() };
 }
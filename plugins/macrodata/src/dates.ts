@@ -0,0 +1,105 @@
+/**
+ * Date expressions for search filters
+ *
+ * Accepts ISO dates and timestamps, or relative expressions:
+ * - "today", "yesterday"
+ * - weekday names, e.g. "monday" for the most recent Monday (today, if it is one),
+ *   or the first one on or after `after` when resolving the end of a range
+ * - "last week", "last month", "last year"
+ * - "7d", "2w", "3m", "1y", "12h"
+ * - "3 days ago", "2 weeks ago"
+ *
+ * Day boundaries are UTC, matching the journal's daily files.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+type Unit = "h" | "d" | "w" | "m" | "y";
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const UNIT_NAMES: Record<string, Unit> = {
+  hour: "h",
+  day: "d",
+  week: "w",
+  month: "m",
+  year: "y",
+};
+
+function subtract(now: Date, amount: number, unit: Unit): Date {
+  const date = new Date(now);
+  switch (unit) {
+    case "h":
+      return new Date(now.getTime() - amount * HOUR_MS);
+    case "d":
+      return new Date(now.getTime() - amount * DAY_MS);
+    case "w":
+      return new Date(now.getTime() - amount * 7 * DAY_MS);
+    case "m":
+      date.setUTCMonth(date.getUTCMonth() - amount);
+      return date;
+    case "y":
+      date.setUTCFullYear(date.getUTCFullYear() - amount);
+      return date;
+  }
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function endOfDay(date: Date): Date {
+  return new Date(startOfDay(date).getTime() + DAY_MS - 1);
+}
+
+/**
+ * Resolve a date expression to an ISO timestamp
+ *
+ * Whole days resolve to their start, or their end if `end` is set, so
+ * `until: "2025-01-31"` includes entries from that day. Pass the range's
+ * resolved start as `after` when resolving its end, so "monday" to "friday"
+ * means the Friday after that Monday rather than the one before it. Throws
+ * on expressions it doesn't recognise.
+ */
+export function parseDateExpression(
+  expression: string,
+  options: { end?: boolean; now?: Date; after?: string } = {}
+): string {
+  const { end = false, now = new Date(), after } = options;
+  const expr = expression.trim().toLowerCase();
+  const day = (date: Date) => (end ? endOfDay(date) : startOfDay(date)).toISOString();
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(expr)) {
+    return day(new Date(`${expr}T00:00:00.000Z`));
+  }
+  if (expr === "today") return day(now);
+  if (expr === "yesterday") return day(new Date(now.getTime() - DAY_MS));
+
+  const weekday = WEEKDAYS.indexOf(expr);
+  if (weekday !== -1) {
+    if (after) {
+      const start = new Date(after);
+      const daysAhead = (weekday - start.getUTCDay() + 7) % 7;
+      return day(new Date(start.getTime() + daysAhead * DAY_MS));
+    }
+    const daysAgo = (now.getUTCDay() - weekday + 7) % 7;
+    return day(new Date(now.getTime() - daysAgo * DAY_MS));
+  }
+
+  const last = expr.match(/^(?:last|past) (hour|day|week|month|year)$/);
+  if (last) return subtract(now, 1, UNIT_NAMES[last[1]]).toISOString();
+
+  const short = expr.match(/^(\d+)\s*([hdwmy])$/);
+  if (short) return subtract(now, parseInt(short[1], 10), short[2] as Unit).toISOString();
+
+  const ago = expr.match(/^(\d+) (hour|day|week|month|year)s? ago$/);
+  if (ago) return subtract(now, parseInt(ago[1], 10), UNIT_NAMES[ago[2]]).toISOString();
+
+  const timestamp = new Date(expression);
+  if (/^\d{4}-\d{2}-\d{2}t/.test(expr) && !isNaN(timestamp.getTime())) {
+    return timestamp.toISOString();
+  }
+
+  throw new Error(`Unrecognised date "${expression}". Use an ISO date, or e.g. "yesterday", "last week" or "7d"`);
+}
@@ -0,0 +1,196 @@
+/**
+ * Embedding cache
+ *
+ * Persists vectors keyed by (model id, sha256 of text) so rebuilds only
+ * embed new or changed text. Each index has its own named cache so that
+ * pruning after one index's rebuild doesn't evict another's vectors.
+ *
+ * Stored in a SQLite database, .index/embedding-cache.sqlite, with vectors
+ * as Float32 blobs. Vectors are looked up as they're needed rather than
+ * loaded up front, so a large conversation cache costs no memory until
+ * it's used. Writes and prunes hold the database's lock, so entries added
+ * by another process while a prune runs aren't lost.
+ *
+ * Caches from the earlier JSONL format (.index/embedding-cache/*.jsonl)
+ * are imported the first time they're used, then deleted.
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync, mkdirSync, readFileSync, unlinkSync } from "fs";
+import { join } from "path";
+import { createHash } from "crypto";
+import { getIndexDir } from "./config.js";
+import { withLock } from "./lock.js";
+
+// Hashes per lookup query, well under SQLite's parameter limit
+const LOOKUP_BATCH_SIZE = 500;
+
+// Open databases by path, as the index directory can change between calls
+const databases = new Map<string, Database>();
+
+// Legacy JSONL caches already checked for in this process
+const legacyChecked = new Set<string>();
+
+export function hashText(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function getCachePath(): string {
+  return join(getIndexDir(), "embedding-cache.sqlite");
+}
+
+function getLegacyCachePath(name: string, model: string): string {
+  const modelKey = createHash("sha256").update(model).digest("hex").slice(0, 12);
+  return join(getIndexDir(), "embedding-cache", `${name}-${modelKey}.jsonl`);
+}
+
+function encodeVector(vector: number[]): Uint8Array {
+  return new Uint8Array(new Float32Array(vector).buffer);
+}
+
+function decodeVector(blob: Uint8Array): number[] {
+  // Copy, as the blob's offset may not be 4-byte aligned
+  return Array.from(new Float32Array(blob.slice().buffer));
+}
+
+function openDatabase(): { db: Database; path: string } {
+  const path = getCachePath();
+  let db = databases.get(path);
+  if (!db) {
+    mkdirSync(getIndexDir(), { recursive: true });
+    db = new Database(path, { create: true });
+    db.exec("PRAGMA busy_timeout = 5000");
+    db.exec("PRAGMA journal_mode = WAL");
+    db.exec("PRAGMA secure_delete = ON");
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS embeddings (
+        cache TEXT NOT NULL,
+        model TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        PRIMARY KEY (cache, model, hash)
+      ) WITHOUT ROWID
+    `);
+    databases.set(path, db);
+  }
+  return { db, path };
+}
+
+function insertEmbeddings(db: Database, name: string, model: string, entries: Array<[string, number[]]>): void {
+  const insert = db.query("INSERT OR IGNORE INTO embeddings (cache, model, hash, vector) VALUES (?, ?, ?, ?)");
+  db.transaction(() => {
+    for (const [hash, vector] of entries) {
+      insert.run(name, model, hash, encodeVector(vector));
+    }
+  })();
+}
+
+/**
+ * Open the cache database, importing a legacy JSONL cache for this name
+ * and model if there is one
+ */
+function openCache(name: string, model: string): { db: Database; path: string } {
+  const opened = openDatabase();
+  const legacyPath = getLegacyCachePath(name, model);
+  if (legacyChecked.has(legacyPath)) return opened;
+  legacyChecked.add(legacyPath);
+  if (!existsSync(legacyPath)) return opened;
+
+  const entries: Array<[string, number[]]> = [];
+  for (const line of readFileSync(legacyPath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const { h, v } = JSON.parse(line) as { h: string; v: string };
+      const bytes = Buffer.from(v, "base64");
+      entries.push([h, Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4))]);
+    } catch {
+      // Skip a partially written line
+    }
+  }
+
+  withLock(opened.path, () => insertEmbeddings(opened.db, name, model, entries));
+  unlinkSync(legacyPath);
+  return opened;
+}
+
+/**
+ * Look up cached vectors for text hashes
+ * Returns undefined for hashes that aren't cached.
+ */
+export function getCachedEmbeddings(
+  name: string,
+  model: string,
+  hashes: string[]
+): Array<number[] | undefined> {
+  if (hashes.length === 0) return [];
+
+  const { db } = openCache(name, model);
+  const found = new Map<string, number[]>();
+
+  for (let i = 0; i < hashes.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = hashes.slice(i, i + LOOKUP_BATCH_SIZE);
+    const rows = db
+      .query(
+        `SELECT hash, vector FROM embeddings WHERE cache = ? AND model = ? AND hash IN (${batch.map(() => "?").join(", ")})`
+      )
+      .all(name, model, ...batch) as Array<{ hash: string; vector: Uint8Array }>;
+    for (const row of rows) {
+      found.set(row.hash, decodeVector(row.vector));
+    }
+  }
+
+  return hashes.map((hash) => found.get(hash));
+}
+
+/**
+ * Add vectors to a cache
+ */
+export function cacheEmbeddings(name: string, model: string, entries: Array<[string, number[]]>): void {
+  if (entries.length === 0) return;
+
+  const { db, path } = openCache(name, model);
+  withLock(path, () => insertEmbeddings(db, name, model, entries));
+}
+
+/**
+ * Drop cached vectors for particular texts, e.g. ones that were redacted
+ * The write-ahead log is checkpointed too, so no copy of them is left in it.
+ */
+export function forgetEmbeddings(name: string, model: string, texts: string[]): number {
+  if (texts.length === 0) return 0;
+
+  const { db, path } = openCache(name, model);
+  const remove = db.query("DELETE FROM embeddings WHERE cache = ? AND model = ? AND hash = ?");
+  return withLock(path, () => {
+    const removed = db.transaction(() =>
+      texts.reduce((count, text) => count + remove.run(name, model, hashText(text)).changes, 0)
+    )();
+    db.exec("PRAGMA wal_checkpoint(TRUNCATE)");
+    return removed;
+  });
+}
+
+/**
+ * Drop cached vectors for text that is no longer indexed
+ * Call after a full rebuild with every text that was embedded.
+ */
+export function pruneEmbeddingCache(name: string, model: string, texts: string[]): number {
+  const { db, path } = openCache(name, model);
+
+  return withLock(path, () =>
+    db.transaction(() => {
+      db.exec("CREATE TEMP TABLE IF NOT EXISTS keep (hash TEXT PRIMARY KEY)");
+      db.exec("DELETE FROM keep");
+      const keep = db.query("INSERT OR IGNORE INTO keep (hash) VALUES (?)");
+      for (const text of texts) {
+        keep.run(hashText(text));
+      }
+
+      const { changes } = db
+        .query("DELETE FROM embeddings WHERE cache = ? AND model = ? AND hash NOT IN (SELECT hash FROM keep)")
+        .run(name, model);
+      db.exec("DELETE FROM keep");
+      return changes;
+    })()
+  );
+}
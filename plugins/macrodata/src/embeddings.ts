@@ -1,102 +1,313 @@
 /**
- * Embeddings module using Transformers.js
+ * Embeddings module
  *
- * Provides local embedding generation using all-MiniLM-L6-v2
- * No API calls, runs entirely locally
+ * Generates embeddings through a pluggable provider, selected by the
+ * "embeddings" key in config.json:
+ * - transformers (default): local Transformers.js model, all-MiniLM-L6-v2
+ *   unless another model is configured. No API calls, runs entirely locally.
+ * - openai: an OpenAI-compatible /embeddings endpoint, such as a local
+ *   llama.cpp or Ollama server
+ * - hash: hashed bag of words, for tests and machines without a model
+ *
+ * Vector dimensions depend on the model, so they are discovered at runtime
+ * rather than hard-coded.
+ *
+ * Indexed text can be looked up in a persistent cache first (see
+ * embedding-cache.ts) so rebuilds only embed what has changed.
  *
  * Uses dynamic import to avoid slow startup from loading the large
  * @xenova/transformers library at module load time.
  */
 
 import type { FeatureExtractionPipeline } from "@xenova/transformers";
+import { getEmbeddingConfig, type EmbeddingConfig } from "./config.js";
+import { cacheEmbeddings, getCachedEmbeddings, hashText } from "./embedding-cache.js";
+import { logger } from "./logger.js";
+
+export interface EmbeddingProvider {
+  /** Identifies the model that produced the vectors, e.g. "transformers:Xenova/all-MiniLM-L6-v2" */
+  readonly id: string;
+  /** Embed texts, returning one vector per input in the same order */
+  embed(texts: string[]): Promise<number[][]>;
+  /** Load the model or check the server is reachable */
+  preload(): Promise<void>;
+}
+
+// Process inputs in batches to avoid memory issues
+const BATCH_SIZE = 32;
+
+/**
+ * Local Transformers.js feature-extraction model
+ */
+class TransformersProvider implements EmbeddingProvider {
+  readonly id: string;
+  private pipeline: FeatureExtractionPipeline | null = null;
+  private pipelineLoading: Promise<FeatureExtractionPipeline> | null = null;
+
+  constructor(private config: Extract<EmbeddingConfig, { provider: "transformers" }>) {
+    this.id = `transformers:${config.model}`;
+  }
+
+  private async getPipeline(): Promise<FeatureExtractionPipeline> {
+    if (this.pipeline) {
+      return this.pipeline;
+    }
+
+    // Prevent multiple concurrent pipeline creations
+    if (this.pipelineLoading) {
+      return this.pipelineLoading;
+    }
+
+    this.pipelineLoading = (async () => {
+      const { pipeline } = await import("@xenova/transformers");
+      return pipeline("feature-extraction", this.config.model, {
+        quantized: this.config.quantized ?? true,
+      });
+    })();
+
+    try {
+      this.pipeline = await this.pipelineLoading;
+      logger.log(`[Embeddings] Model ${this.config.model} loaded successfully`);
+      return this.pipeline;
+    } finally {
+      this.pipelineLoading = null;
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const pipe = await this.getPipeline();
+    const results: number[][] = [];
 
-// Singleton pipeline instance (expensive to create)
-let embeddingPipeline: FeatureExtractionPipeline | null = null;
-let pipelineLoading: Promise<FeatureExtractionPipeline> | null = null;
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const batch = texts.slice(i, i + BATCH_SIZE);
+      const output = await pipe(batch, {
+        pooling: this.config.pooling ?? "mean",
+        normalize: true,
+      });
 
-// Model produces 384-dimensional embeddings
-export const EMBEDDING_DIMENSIONS = 384;
+      // Output is a [batch, dimensions] tensor
+      const dimensions = output.dims[output.dims.length - 1];
+      const data = output.data as Float32Array;
+      for (let j = 0; j < batch.length; j++) {
+        results.push(Array.from(data.slice(j * dimensions, (j + 1) * dimensions)));
+      }
+    }
+
+    return results;
+  }
+
+  async preload(): Promise<void> {
+    await this.getPipeline();
+  }
+}
 
 /**
- * Get or create the embedding pipeline
- * Uses all-MiniLM-L6-v2 – good balance of quality and speed
+ * OpenAI-compatible HTTP embedding server
  */
-async function getEmbeddingPipeline(): Promise<FeatureExtractionPipeline> {
-  if (embeddingPipeline) {
-    return embeddingPipeline;
+class OpenAICompatibleProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private config: Extract<EmbeddingConfig, { provider: "openai" }>) {
+    this.id = `openai:${config.model}@${config.url}`;
   }
 
-  // Prevent multiple concurrent pipeline creations
-  if (pipelineLoading) {
-    return pipelineLoading;
+  async embed(texts: string[]): Promise<number[][]> {
+    const url = `${this.config.url.replace(/\/+$/, "")}/embeddings`;
+    const results: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const batch = texts.slice(i, i + BATCH_SIZE);
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+        },
+        body: JSON.stringify({ model: this.config.model, input: batch }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding server returned ${response.status}: ${await response.text()}`);
+      }
+
+      const body = (await response.json()) as { data: Array<{ index: number; embedding: number[] }> };
+      const ordered = [...body.data].sort((a, b) => a.index - b.index);
+      if (ordered.length !== batch.length) {
+        throw new Error(`Embedding server returned ${ordered.length} vectors for ${batch.length} inputs`);
+      }
+      results.push(...ordered.map((d) => normalize(d.embedding)));
+    }
+
+    return results;
   }
 
-  pipelineLoading = (async () => {
-    const { pipeline } = await import("@xenova/transformers");
-    return pipeline("feature-extraction", "Xenova/all-MiniLM-L6-v2", {
-      // Use quantized model for faster loading
-      quantized: true,
+  async preload(): Promise<void> {
+    await this.embed(["ping"]);
+  }
+}
+
+/**
+ * Hashed bag of words, with no model
+ * Each word, and the first four letters of longer words, adds to one
+ * dimension picked by its hash, so texts sharing words (or word stems)
+ * point the same way. Deterministic and instant, which is what tests need.
+ */
+class HashProvider implements EmbeddingProvider {
+  readonly id: string;
+  private dimensions: number;
+
+  constructor(config: Extract<EmbeddingConfig, { provider: "hash" }>) {
+    this.dimensions = config.dimensions ?? 384;
+    this.id = `hash:${this.dimensions}`;
+  }
+
+  private bucket(token: string): number {
+    // FNV-1a
+    let hash = 2166136261;
+    for (let i = 0; i < token.length; i++) {
+      hash ^= token.charCodeAt(i);
+      hash = Math.imul(hash, 16777619);
+    }
+    return Math.abs(hash) % this.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = Array.from({ length: this.dimensions }, () => 0);
+      for (const token of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+        vector[this.bucket(token)] += 1;
+        if (token.length > 4) vector[this.bucket(token.slice(0, 4))] += 0.5;
+      }
+      return normalize(vector);
     });
-  })();
+  }
 
-  try {
-    embeddingPipeline = await pipelineLoading;
-    console.log("[Embeddings] Model loaded successfully");
-    return embeddingPipeline;
-  } finally {
-    pipelineLoading = null;
+  async preload(): Promise<void> {}
+}
+
+/**
+ * Scale a vector to unit length, matching the local models' output
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return norm === 0 ? vector : vector.map((x) => x / norm);
+}
+
+/**
+ * Create a provider for an embedding config
+ */
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  if (config.provider === "openai") {
+    return new OpenAICompatibleProvider(config);
   }
+  if (config.provider === "hash") {
+    return new HashProvider(config);
+  }
+  return new TransformersProvider(config);
 }
 
+// Cached provider, re-created if the config changes
+let provider: EmbeddingProvider | null = null;
+let providerKey: string | null = null;
+let dimensions: number | null = null;
+
 /**
- * Generate embeddings for a single text
+ * Get the provider for the current config
  */
-export async function embed(text: string): Promise<number[]> {
-  const pipe = await getEmbeddingPipeline();
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const config = getEmbeddingConfig();
+  const key = JSON.stringify(config);
+
+  if (!provider || providerKey !== key) {
+    provider = createEmbeddingProvider(config);
+    providerKey = key;
+    dimensions = null;
+  }
 
-  // Generate embeddings
-  const output = await pipe(text, {
-    pooling: "mean",
-    normalize: true,
-  });
+  return provider;
+}
 
-  // Convert to regular array
-  return Array.from(output.data as Float32Array);
+export interface EmbedOptions {
+  /** Name of the persistent cache to use, e.g. "memory". Uncached if omitted. */
+  cache?: string;
+}
+
+/**
+ * Generate embeddings for a single text
+ */
+export async function embed(text: string, options: EmbedOptions = {}): Promise<number[]> {
+  const [vector] = await embedBatch([text], options);
+  return vector;
 }
 
 /**
  * Generate embeddings for multiple texts (batched)
  */
-export async function embedBatch(texts: string[]): Promise<number[][]> {
+export async function embedBatch(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
   if (texts.length === 0) return [];
 
-  const pipe = await getEmbeddingPipeline();
+  const current = getEmbeddingProvider();
+  const vectors = options.cache
+    ? await embedWithCache(current, texts, options.cache)
+    : await current.embed(texts);
+  if (current === provider) {
+    dimensions = vectors[0].length;
+  }
+  return vectors;
+}
 
-  // Process in batches to avoid memory issues
-  const batchSize = 32;
-  const results: number[][] = [];
+/**
+ * Embed only the texts missing from the cache, then add them to it
+ */
+async function embedWithCache(
+  current: EmbeddingProvider,
+  texts: string[],
+  cache: string
+): Promise<number[][]> {
+  const hashes = texts.map(hashText);
+  const vectors = getCachedEmbeddings(cache, current.id, hashes);
 
-  for (let i = 0; i < texts.length; i += batchSize) {
-    const batch = texts.slice(i, i + batchSize);
-    const outputs = await pipe(batch, {
-      pooling: "mean",
-      normalize: true,
+  const missing = vectors.flatMap((vector, i) => (vector ? [] : [i]));
+  if (missing.length > 0) {
+    const embedded = await current.embed(missing.map((i) => texts[i]));
+    missing.forEach((i, j) => {
+      vectors[i] = embedded[j];
     });
+    cacheEmbeddings(
+      cache,
+      current.id,
+      missing.map((i, j) => [hashes[i], embedded[j]])
+    );
+  }
 
-    // Handle batched output
-    for (let j = 0; j < batch.length; j++) {
-      const start = j * EMBEDDING_DIMENSIONS;
-      const end = start + EMBEDDING_DIMENSIONS;
-      results.push(Array.from((outputs.data as Float32Array).slice(start, end)));
-    }
+  return vectors as number[][];
+}
+
+/**
+ * Get the vector dimensions of the current model
+ * Embeds a probe string the first time if nothing has been embedded yet.
+ */
+export async function getEmbeddingDimensions(): Promise<number> {
+  getEmbeddingProvider();
+  if (dimensions === null) {
+    await embed("dimensions");
   }
+  return dimensions!;
+}
 
-  return results;
+/**
+ * Get the vector dimensions of the current model, if anything has been
+ * embedded with it in this process
+ * Unlike getEmbeddingDimensions, never loads the model or calls a server.
+ */
+export function getKnownEmbeddingDimensions(): number | null {
+  getEmbeddingProvider();
+  return dimensions;
 }
 
 /**
  * Preload the model (call during startup to avoid first-query delay)
  */
 export async function preloadModel(): Promise<void> {
-  await getEmbeddingPipeline();
+  await getEmbeddingProvider().preload();
 }
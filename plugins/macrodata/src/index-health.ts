@@ -0,0 +1,90 @@
+/**
+ * Index verification reports
+ *
+ * The memory and conversation indexes can drift from the files they were
+ * built from, e.g. if a process was killed mid-update or files were edited
+ * while nothing was watching. Each index can compare itself with its files
+ * and report the differences in this shape, then repair them without a
+ * full rebuild.
+ */
+
+export interface IndexIssue {
+  /** File the item comes from */
+  source: string;
+  /** Item id, unless the issue is with a whole file */
+  id?: string;
+  section?: string;
+}
+
+export interface IndexReport {
+  /** Items whose source file, section or journal line no longer exists */
+  orphaned: IndexIssue[];
+  /** Files, sections or entries on disk that aren't in the index */
+  missing: IndexIssue[];
+  /** Items whose indexed content no longer matches the file */
+  outdated: IndexIssue[];
+  /** Ids produced by more than one entry on disk */
+  duplicates: IndexIssue[];
+  /** Observations that don't need repairing */
+  notes: string[];
+}
+
+// Issues listed per group before summarising the rest
+const MAX_LISTED = 20;
+
+export function createIndexReport(): IndexReport {
+  return { orphaned: [], missing: [], outdated: [], duplicates: [], notes: [] };
+}
+
+export function isIndexConsistent(report: IndexReport): boolean {
+  return (
+    report.orphaned.length === 0 &&
+    report.missing.length === 0 &&
+    report.outdated.length === 0 &&
+    report.duplicates.length === 0
+  );
+}
+
+function formatIssue(issue: IndexIssue): string {
+  const location = issue.section ? `${issue.source} > ${issue.section}` : issue.source;
+  return issue.id ? `${location} (${issue.id})` : location;
+}
+
+/**
+ * Format a report for tool output
+ * After a repair, pass repaired so the summary says what was fixed.
+ */
+export function formatIndexReport(name: string, report: IndexReport, repaired = false): string {
+  const groups: Array<[string, IndexIssue[]]> = [
+    [repaired ? "orphaned removed" : "orphaned", report.orphaned],
+    [repaired ? "missing indexed" : "missing", report.missing],
+    [repaired ? "outdated re-indexed" : "outdated", report.outdated],
+    ["duplicate ids", report.duplicates],
+  ];
+
+  const summary = groups.map(([label, issues]) => `${issues.length} ${label}`).join(", ");
+  const lines = [
+    isIndexConsistent(report)
+      ? `${name} index matches the files on disk.`
+      : repaired
+        ? `Repaired ${name.toLowerCase()} index: ${summary}`
+        : `${name} index: ${summary}`,
+  ];
+
+  for (const [label, issues] of groups) {
+    if (issues.length === 0) continue;
+    lines.push("", `${label[0].toUpperCase()}${label.slice(1)}:`);
+    for (const issue of issues.slice(0, MAX_LISTED)) {
+      lines.push(`  - ${formatIssue(issue)}`);
+    }
+    if (issues.length > MAX_LISTED) {
+      lines.push(`  ...and ${issues.length - MAX_LISTED} more`);
+    }
+  }
+
+  if (report.notes.length > 0) {
+    lines.push("", ...report.notes);
+  }
+
+  return lines.join("\n");
+}
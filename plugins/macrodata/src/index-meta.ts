@@ -0,0 +1,119 @@
+/**
+ * Index metadata
+ *
+ * Records which embedding model and settings produced the vectors in an
+ * index, in the store's meta table. Vectors from different models (or
+ * different chunking) can't be compared, so indexes check this on open and
+ * rebuild when it doesn't match the current configuration.
+ */
+
+import { getEmbeddingProvider, getEmbeddingDimensions, getKnownEmbeddingDimensions } from "./embeddings.js";
+import { withLock } from "./lock.js";
+import type { VectorStore } from "./vector-store.js";
+
+// Bump when the shape of stored items changes incompatibly
+export const INDEX_SCHEMA_VERSION = 1;
+
+export interface IndexMeta {
+  schemaVersion: number;
+  /** Version of the text preparation for this index (chunking, formatting) */
+  chunkingVersion: number;
+  /** Embedding provider id, e.g. "transformers:Xenova/all-MiniLM-L6-v2" */
+  model: string;
+  dimensions: number;
+  createdAt: string;
+}
+
+// Indexes created before metadata was recorded all used this model
+const LEGACY_META: IndexMeta = {
+  schemaVersion: 1,
+  chunkingVersion: 1,
+  model: "transformers:Xenova/all-MiniLM-L6-v2",
+  dimensions: 384,
+  createdAt: "",
+};
+
+/**
+ * Metadata describing the current configuration, for vectors of the given
+ * dimensions
+ */
+export function getCurrentIndexMeta(chunkingVersion: number, dimensions: number): IndexMeta {
+  return {
+    schemaVersion: INDEX_SCHEMA_VERSION,
+    chunkingVersion,
+    model: getEmbeddingProvider().id,
+    dimensions,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Describe why an index can't be used with the current configuration
+ * Returns null if it matches. Dimensions are only compared if expected
+ * ones are given.
+ */
+export function getIndexMetaMismatch(
+  actual: IndexMeta,
+  expected: Omit<IndexMeta, "dimensions" | "createdAt"> & { dimensions?: number }
+): string | null {
+  if (actual.model !== expected.model) {
+    return `built with ${actual.model}, configured model is ${expected.model}`;
+  }
+  if (expected.dimensions !== undefined && actual.dimensions !== expected.dimensions) {
+    return `has ${actual.dimensions}-dimension vectors, model produces ${expected.dimensions}`;
+  }
+  if (actual.schemaVersion !== expected.schemaVersion) {
+    return `uses schema v${actual.schemaVersion}, expected v${expected.schemaVersion}`;
+  }
+  if (actual.chunkingVersion !== expected.chunkingVersion) {
+    return `uses chunking v${actual.chunkingVersion}, expected v${expected.chunkingVersion}`;
+  }
+  return null;
+}
+
+function readIndexMeta(store: VectorStore): IndexMeta | null {
+  return store.getMeta<IndexMeta>("index") ?? (store.count() > 0 ? LEGACY_META : null);
+}
+
+/**
+ * Check a store was built with the current configuration
+ *
+ * New stores are stamped with the current metadata. Stores with items but
+ * no metadata predate it and are compared as legacy. If the metadata
+ * doesn't match, the store is cleared and re-stamped, and the reason is
+ * returned so the caller can log it and re-index.
+ *
+ * The model and versions are compared first. The provider is only asked
+ * for its dimensions (which may mean loading the model or calling the
+ * embedding server) when the store needs stamping, so opening an index
+ * for a keyword search or stats works without the model.
+ */
+export async function checkIndexMeta(store: VectorStore, chunkingVersion: number): Promise<string | null> {
+  const stored = readIndexMeta(store);
+  const base = { schemaVersion: INDEX_SCHEMA_VERSION, chunkingVersion, model: getEmbeddingProvider().id };
+  const needsDimensions = !stored || !stored.dimensions || getIndexMetaMismatch(stored, base) !== null;
+  const dimensions = needsDimensions
+    ? await getEmbeddingDimensions()
+    : (getKnownEmbeddingDimensions() ?? stored.dimensions);
+  const expected = getCurrentIndexMeta(chunkingVersion, dimensions);
+
+  return withLock(store.path, () => {
+    // Re-read under the lock, as another process may have stamped it since
+    const actual = readIndexMeta(store);
+
+    if (!actual) {
+      store.setMeta("index", expected);
+      return null;
+    }
+
+    const mismatch = getIndexMetaMismatch(actual, expected);
+    if (mismatch) {
+      store.clear();
+      store.setMeta("index", expected);
+    } else if (!actual.createdAt) {
+      // Record metadata for indexes that predate it
+      store.setMeta("index", expected);
+    }
+    return mismatch;
+  });
+}
@@ -4,15 +4,23 @@
  * Provides tools for local file-based memory:
  * - log_journal: Append timestamped entries (with auto-indexing)
  * - get_recent_journal: Get recent entries
- * - search_memory: Semantic search using Transformers.js
- * - manage_index: Rebuild or get stats for memory/conversation indexes
+ * - get_journal_range: Timeline of entries between two dates
+ * - export_journal: Render the journal as Markdown daily notes
+ * - update_journal_entry / delete_journal_entry / redact_journal_entry: Correct or remove entries
+ * - search_memory: Semantic + keyword search using Transformers.js and BM25
+ * - get_related: Associative lookup from a memory item
+ * - find_duplicates: Group near-duplicate journal entries for consolidation
+ * - get_topic_map: Cluster recent journal entries and entity sections by theme
+ * - manage_index: Rebuild, verify, repair or get stats for memory/conversation indexes
  * - schedule: Create cron or one-shot reminders
  * - list_reminders: List active schedules
  * - remove_reminder: Delete a reminder
+ * - add_watch / list_watches / remove_watch: Standing queries checked by the daemon
  * - save_conversation_summary: Save session summaries
  * - get_recent_summaries: Get past summaries
  * - search_conversations: Search past Claude Code sessions
  * - expand_conversation: Load full context from a session
+ * - search_everything: Search memory and past conversations in one ranking
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
@@ -23,9 +31,19 @@ import { join } from "path";
 import {
   searchMemory as doSearchMemory,
   indexJournalEntry,
+  getJournalEntryId,
   rebuildIndex,
   getIndexStats,
-  type MemoryItemType,
+  getRelated,
+  findDuplicateClusters,
+  clusterMemory,
+  verifyIndex,
+  repairIndex,
+  type JournalDuplicate,
+  type JournalEntryMetadata,
+  type SearchExplanation,
+  type SearchMode,
+  type SearchResult,
 } from "./indexer.js";
 import {
   searchConversations,
@@ -33,7 +51,16 @@ import {
   rebuildConversationIndex,
   updateConversationIndex,
   getConversationIndexStats,
+  verifyConversationIndex,
+  repairConversationIndex,
 } from "./conversations.js";
+import { formatIndexReport } from "./index-health.js";
+import { searchEverything, type SearchOrigin, type UnifiedSearchHit } from "./search-everything.js";
+import { addWatch, loadWatches, removeWatch, DEFAULT_WATCH_THRESHOLD } from "./watches.js";
+import { updateJournalEntry, deleteJournalEntry, redactJournalEntry } from "./journal-edit.js";
+import { getProjectMetadata } from "./project.js";
+import { getJournalRange, formatJournalTimeline } from "./journal-range.js";
+import { exportJournal } from "./journal-export.js";
 import {
   getStateRoot,
   getStateDir,
@@ -42,17 +69,16 @@ import {
   getIndexDir,
   getRemindersDir,
 } from "./config.js";
+import { withLock } from "./lock.js";
 import { unlinkSync } from "fs";
 
 // Types
 interface JournalEntry {
+  id?: string;
   timestamp: string;
   topic: string;
   content: string;
-  metadata?: {
-    source?: string;
-    intent?: string;
-  };
+  metadata?: JournalEntryMetadata;
 }
 
 interface Schedule {
@@ -139,7 +165,7 @@ function getTodayJournalPath(): string {
   return join(getJournalDir(), `${today}.jsonl`);
 }
 
-function getRecentJournalEntries(count: number): JournalEntry[] {
+function getRecentJournalEntries(count: number, filter: (entry: JournalEntry) => boolean = () => true): JournalEntry[] {
   const entries: JournalEntry[] = [];
   const journalDir = getJournalDir();
 
@@ -160,7 +186,8 @@ function getRecentJournalEntries(count: number): JournalEntry[] {
     for (const line of lines.reverse()) {
       if (entries.length >= count) break;
       try {
-        entries.push(JSON.parse(line));
+        const entry = JSON.parse(line) as JournalEntry;
+        if (filter(entry)) entries.push(entry);
       } catch {
         // Skip malformed lines
       }
@@ -185,8 +212,21 @@ server.tool(
     content: z.string().describe("The actual note or observation"),
     source: z.string().optional().describe("Where this came from (conversation, cron, etc.)"),
     intent: z.string().optional().describe("What you were doing when logging this"),
+    tags: z.array(z.string()).optional().describe("Tags for finding the entry later, e.g. ['decision', 'outage']"),
+    entities: z
+      .array(z.string())
+      .optional()
+      .describe("Entity files the entry is about, e.g. ['people/alice.md', 'projects/macrodata.md']"),
+    importance: z
+      .number()
+      .int()
+      .min(1)
+      .max(5)
+      .optional()
+      .describe("1 (trivia) to 5 (critical), e.g. 4 or 5 for decisions that shape a project"),
+    project: z.string().optional().describe("Project the entry belongs to (default: the current project)"),
   },
-  async ({ topic, content, source, intent }) => {
+  async ({ topic, content, source, intent, tags, entities, importance, project }) => {
     ensureDirectories();
 
     const entry: JournalEntry = {
@@ -196,24 +236,35 @@ server.tool(
       metadata: {
         ...(source && { source }),
         ...(intent && { intent }),
+        ...(tags?.length && { tags }),
+        ...(entities?.length && { entities }),
+        ...(importance && { importance }),
+        ...getProjectMetadata(),
+        ...(project && { project }),
       },
     };
 
     const journalPath = getTodayJournalPath();
-    appendFileSync(journalPath, JSON.stringify(entry) + "\n");
+    withLock(journalPath, () => appendFileSync(journalPath, JSON.stringify(entry) + "\n"));
 
     // Index the entry for semantic search
+    let duplicates: JournalDuplicate[] = [];
     try {
-      await indexJournalEntry(entry);
+      duplicates = await indexJournalEntry(entry);
     } catch (err) {
       console.error("[log_journal] Failed to index entry:", err);
     }
 
+    const warnings = duplicates.map(
+      (d) =>
+        `Possible duplicate of ${d.content.slice(0, 100)}${d.content.length > 100 ? "..." : ""} (${d.timestamp}, similarity ${d.similarity.toFixed(2)}, id ${d.id})`
+    );
+
     return {
       content: [
         {
           type: "text" as const,
-          text: `Logged to journal: ${topic}`,
+          text: [`Logged to journal: ${topic}`, ...warnings].join("\n"),
         },
       ],
     };
@@ -223,19 +274,27 @@ server.tool(
 // Tool: get_recent_journal
 server.tool(
   "get_recent_journal",
-  "Get the N most recent journal entries, optionally filtered by topic",
+  "Get the N most recent journal entries, optionally filtered by topic, tag, project or importance",
   {
     count: z.number().default(10).describe("Number of entries to retrieve"),
     topic: z.string().optional().describe("Filter by specific topic"),
+    tag: z.string().optional().describe("Only entries with this tag"),
+    project: z.string().optional().describe("Only entries for this project"),
+    minImportance: z.number().int().min(1).max(5).optional().describe("Only entries with at least this importance, 1-5"),
+    projectOnly: z.boolean().default(false).describe("Only entries logged in the current project"),
   },
-  async ({ count, topic }) => {
-    let entries = getRecentJournalEntries(Math.min(count * 2, 100)); // Get more to filter
-    
-    if (topic) {
-      entries = entries.filter(e => e.topic === topic);
-    }
-    
-    entries = entries.slice(0, count);
+  async ({ count, topic, tag, project, minImportance, projectOnly }) => {
+    const currentProject = projectOnly ? getProjectMetadata().projectPath : undefined;
+    const entries = getRecentJournalEntries(count, (e) => {
+      if (topic && e.topic !== topic) return false;
+      if (currentProject && e.metadata?.projectPath !== currentProject) return false;
+      if (tag && !e.metadata?.tags?.some((t) => t.toLowerCase() === tag.toLowerCase())) return false;
+      if (project && e.metadata?.project?.toLowerCase() !== project.toLowerCase()) return false;
+      if (minImportance && (e.metadata?.importance ?? 0) < minImportance) return false;
+      return true;
+    })
+      // Include each entry's id, for editing it
+      .map((e) => ({ id: getJournalEntryId(e), ...e }));
 
     return {
       content: [
@@ -248,22 +307,254 @@ server.tool(
   }
 );
 
+// Tool: get_journal_range
+server.tool(
+  "get_journal_range",
+  "Get every journal entry between two dates as a compact timeline, grouped by day or topic. Use for reviews of a period, e.g. what happened between Monday and Friday.",
+  {
+    from: z.string().describe("Start of the range: an ISO date, a weekday such as monday, or relative such as yesterday, last week or 7d"),
+    to: z.string().optional().describe("End of the range (inclusive), in the same formats as from (default: now)"),
+    topic: z.string().optional().describe("Only entries with this topic"),
+    tag: z.string().optional().describe("Only entries with this tag"),
+    groupBy: z.enum(["day", "topic"]).default("day").describe("Group entries by day or by topic"),
+  },
+  async ({ from, to, topic, tag, groupBy }) => {
+    try {
+      const timeline = getJournalRange({ from, to, topic, tag, groupBy });
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: formatJournalTimeline(timeline),
+          },
+        ],
+      };
+    } catch (err) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Journal range error: ${String(err)}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+// Tool: export_journal
+server.tool(
+  "export_journal",
+  "Export the journal as one Markdown note per day (front matter with date and tags, a heading per topic, wikilinks to entities), e.g. into an Obsidian or Logseq vault. The journal stays the source of truth: exported notes are overwritten on each export, and notes it didn't write are left alone.",
+  {
+    dir: z.string().optional().describe("Directory to write notes to, relative to the macrodata root if not absolute (default: export.dir from config.json)"),
+    since: z.string().optional().describe("Only export days from this date on: an ISO date, or relative such as last week or 7d (default: all)"),
+  },
+  async ({ dir, since }) => {
+    try {
+      const { dir: exportDir, written, unchanged, skipped } = exportJournal({ dir, since });
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text:
+              `Exported ${written.length} day(s) to ${exportDir}${unchanged > 0 ? ` (${unchanged} unchanged)` : ""}` +
+              (skipped.length > 0 ? `\nSkipped ${skipped.join(", ")}: notes not written by the export` : ""),
+          },
+        ],
+      };
+    } catch (err) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Journal export error: ${String(err)}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+// Tool: update_journal_entry
+server.tool(
+  "update_journal_entry",
+  "Correct a journal entry's topic or content. The entry keeps its id and timestamp, and the edit is recorded as a tombstone.",
+  {
+    id: z.string().describe("Journal entry id, from get_recent_journal or search_memory results"),
+    topic: z.string().optional().describe("New topic"),
+    content: z.string().optional().describe("New content, replacing the old"),
+    reason: z.string().optional().describe("Why the entry is being changed"),
+  },
+  async ({ id, topic, content, reason }) => {
+    if (!topic && !content) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: "Nothing to update: give a new topic or content",
+          },
+        ],
+      };
+    }
+
+    try {
+      const entry = await updateJournalEntry(id, { topic, content }, reason);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: entry ? `Updated journal entry ${id}` : `No journal entry with id ${id}`,
+          },
+        ],
+      };
+    } catch (err) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Journal update error: ${String(err)}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+// Tool: delete_journal_entry
+server.tool(
+  "delete_journal_entry",
+  "Delete a journal entry from the journal and search index. A tombstone records the deletion, without the content.",
+  {
+    id: z.string().describe("Journal entry id, from get_recent_journal or search_memory results"),
+    reason: z.string().optional().describe("Why the entry is being deleted"),
+  },
+  async ({ id, reason }) => {
+    try {
+      const deleted = await deleteJournalEntry(id, reason);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: deleted ? `Deleted journal entry ${id}` : `No journal entry with id ${id}`,
+          },
+        ],
+      };
+    } catch (err) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Journal delete error: ${String(err)}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+// Tool: redact_journal_entry
+server.tool(
+  "redact_journal_entry",
+  "Replace sensitive text in a journal entry (such as a secret or personal detail) with [redacted], in the journal and search index. A tombstone records the redaction, without the text.",
+  {
+    id: z.string().describe("Journal entry id, from get_recent_journal or search_memory results"),
+    text: z.string().optional().describe("Exact text to redact (default: the whole content)"),
+    reason: z.string().optional().describe("Why the text is being redacted"),
+  },
+  async ({ id, text, reason }) => {
+    try {
+      const entry = await redactJournalEntry(id, { text, reason });
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: entry ? `Redacted journal entry ${id}` : `No journal entry with id ${id}`,
+          },
+        ],
+      };
+    } catch (err) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Journal redact error: ${String(err)}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+/**
+ * Format a memory search score breakdown for tool output
+ */
+function formatSearchExplanation(explain: SearchExplanation): string {
+  const factors: string[] = [];
+  if (explain.mode !== "keyword") {
+    factors.push(
+      explain.similarity === undefined
+        ? "not in vector results"
+        : `similarity ${explain.similarity.toFixed(3)} (vector #${explain.vectorRank})`
+    );
+  }
+  if (explain.mode !== "semantic") {
+    factors.push(
+      explain.keywordScore === undefined
+        ? "no keyword match"
+        : `keyword ${explain.keywordScore.toFixed(3)} (keyword #${explain.keywordRank})`
+    );
+  }
+  if (explain.projectBoost !== undefined && explain.projectBoost !== 1) {
+    factors.push(`x project ${explain.projectBoost}`);
+  }
+  return `  Why: ${factors.join(", ")}\n  Match: ${explain.highlight}`;
+}
+
 // Tool: search_memory
 server.tool(
   "search_memory",
-  "Semantic search across journal entries and entity files. Returns ranked results.",
+  "Search across journal entries, entity files, topics and state files. Returns ranked results. Hybrid mode (default) combines semantic similarity with keyword matching, so exact identifiers, error codes and stack-trace fragments are found too.",
   {
-    query: z.string().describe("Natural language search query"),
-    type: z.enum(["journal", "person", "project", "all"]).default("all").describe("Filter by content type"),
-    since: z.string().optional().describe("Only include items after this ISO date"),
+    query: z.string().describe("Natural language query, or exact text such as an error message or identifier"),
+    type: z.string().default("all").describe("Filter by content type: 'journal', 'person', 'project', 'topic', 'state', any other entity category (e.g. 'documents'), or 'all'"),
+    topic: z.union([z.string(), z.array(z.string())]).optional().describe("Only journal entries with this topic, or any of these topics"),
+    entrySource: z.string().optional().describe("Only journal entries logged with this source (e.g. 'conversation', 'cron')"),
+    intent: z.string().optional().describe("Only journal entries whose intent contains this text"),
+    path: z.string().optional().describe("Only items from this file or directory, as shown in Source (e.g. 'people/alice.md', 'projects')"),
+    since: z.string().optional().describe("Only include items from this date on: an ISO date, or relative such as 'yesterday', 'last week' or '7d'"),
+    until: z.string().optional().describe("Only include items up to this date (inclusive), in the same formats as since"),
     limit: z.number().default(5).describe("Maximum results to return"),
+    mode: z.enum(["semantic", "keyword", "hybrid"]).default("hybrid").describe("'semantic' for meaning only, 'keyword' for exact terms only, 'hybrid' for both"),
+    explain: z.boolean().default(false).describe("Show why each result ranked where it did: vector similarity, keyword score and the best-matching sentence"),
+    tags: z.union([z.string(), z.array(z.string())]).optional().describe("Only journal entries with this tag, or any of these tags"),
+    entity: z.string().optional().describe("Only journal entries linked to this entity file (e.g. 'people/alice.md')"),
+    project: z.string().optional().describe("Only journal entries for this project"),
+    minImportance: z.number().int().min(1).max(5).optional().describe("Only journal entries with at least this importance, 1-5"),
+    projectOnly: z.boolean().default(false).describe("Only journal entries logged in the current project (default: all, with the current project's ranked higher)"),
+    diversity: z.number().min(0).max(1).optional().describe("0-1: push down results that are near-duplicates of ones above, so more distinct context fits in the limit. 0 is off (default from config, usually 0); around 0.3 drops repeats"),
   },
-  async ({ query, type, since, limit }) => {
+  async ({ query, type, topic, entrySource, intent, path, since, until, tags, entity, project, minImportance, projectOnly, limit, mode, explain, diversity }) => {
     try {
+      const currentProject = getProjectMetadata().projectPath;
       const results = await doSearchMemory(query, {
         limit,
-        type: type === "all" ? undefined : (type as MemoryItemType),
+        type: type === "all" ? undefined : type,
+        topic,
+        entrySource,
+        intent,
+        path,
         since,
+        until,
+        tags,
+        entity,
+        project,
+        minImportance,
+        ...(projectOnly && currentProject && { projectPath: currentProject }),
+        currentProject,
+        mode: mode as SearchMode,
+        explain,
+        diversity,
       });
 
       if (results.length === 0) {
@@ -282,8 +573,10 @@ server.tool(
           const header = `[${i + 1}] ${r.type}${r.section ? ` / ${r.section}` : ""} (score: ${r.score.toFixed(3)})`;
           const meta = r.timestamp ? `  Date: ${r.timestamp}` : "";
           const source = `  Source: ${r.source}`;
+          const id = `  Id: ${r.id}`;
+          const why = r.explain ? formatSearchExplanation(r.explain) : "";
           const content = r.content.slice(0, 500) + (r.content.length > 500 ? "..." : "");
-          return [header, meta, source, "", content].filter(Boolean).join("\n");
+          return [header, meta, source, id, why, "", content].filter(Boolean).join("\n");
         })
         .join("\n\n---\n\n");
 
@@ -308,16 +601,212 @@ server.tool(
   }
 );
 
+// Tool: get_related
+server.tool(
+  "get_related",
+  "Explore associations of a memory item: similar items, entities that share links or mentions, and journal entries from the same day or topic. Takes an id from search_memory results.",
+  {
+    id: z.string().describe("Memory item id from search_memory results"),
+    limit: z.number().default(5).describe("Maximum items per group"),
+  },
+  async ({ id, limit }) => {
+    try {
+      const related = await getRelated(id, { limit });
+
+      if (!related) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `No memory item with id ${id}`,
+            },
+          ],
+        };
+      }
+
+      const formatItem = (r: Omit<SearchResult, "score">, note: string) => {
+        const header = `- ${r.type}${r.section ? ` / ${r.section}` : ""} (${note})`;
+        const meta = `  Source: ${r.source}${r.timestamp ? ` | Date: ${r.timestamp}` : ""} | Id: ${r.id}`;
+        const content = `  ${r.content.slice(0, 200).replace(/\n/g, " ")}${r.content.length > 200 ? "..." : ""}`;
+        return [header, meta, content].join("\n");
+      };
+
+      const groups = [
+        ["Similar", related.similar.map((r) => formatItem(r, `score: ${r.score.toFixed(3)}`))],
+        ["Linked entities", related.linked.map((r) => formatItem(r, r.reason))],
+        ["Journal", related.journal.map((r) => formatItem(r, r.reason))],
+      ] as const;
+
+      const item = related.item;
+      const sections = [
+        `Related to ${item.type}${item.section ? ` / ${item.section}` : ""} (${item.source})`,
+        ...groups.map(([title, lines]) => `## ${title}\n\n${lines.length > 0 ? lines.join("\n\n") : "(none)"}`),
+      ];
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: sections.join("\n\n"),
+          },
+        ],
+      };
+    } catch (err) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Related lookup error: ${String(err)}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+// Tool: find_duplicates
+server.tool(
+  "find_duplicates",
+  "Find clusters of near-duplicate journal entries, e.g. the same observation logged in several sessions. Use during memory maintenance to consolidate them.",
+  {
+    since: z
+      .string()
+      .optional()
+      .describe("Only compare entries from this date on: an ISO date, or relative such as 'last month' or '2w' (default: 3m)"),
+    threshold: z.number().min(0).max(1).optional().describe("Minimum similarity, 0-1 (default 0.9)"),
+  },
+  async ({ since, threshold }) => {
+    try {
+      const clusters = await findDuplicateClusters({ since, threshold });
+
+      if (clusters.length === 0) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "No near-duplicate journal entries found",
+            },
+          ],
+        };
+      }
+
+      const formatted = clusters.map((cluster, i) => {
+        const header = `## Cluster ${i + 1} (${cluster.entries.length} entries, similarity >= ${cluster.minSimilarity.toFixed(2)})`;
+        const entries = cluster.entries.map(
+          (e) =>
+            `- ${e.timestamp} | Id: ${e.id}\n  ${e.content.slice(0, 200).replace(/\n/g, " ")}${e.content.length > 200 ? "..." : ""}`
+        );
+        return [header, ...entries].join("\n");
+      });
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: formatted.join("\n\n"),
+          },
+        ],
+      };
+    } catch (err) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Duplicate search error: ${String(err)}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+// Tool: get_topic_map
+server.tool(
+  "get_topic_map",
+  "Cluster recent journal entries, together with entity and topic files, by theme. Each cluster lists its most frequent journal topics, the files it relates to and its most representative entries. Use during distillation or dreamtime to consolidate each theme into the right file instead of reading raw journals.",
+  {
+    since: z
+      .string()
+      .optional()
+      .describe("Only journal entries from this date on: an ISO date, or relative such as 'last week' or '7d' (default: 2w)"),
+    until: z.string().optional().describe("Only journal entries up to this date (inclusive), in the same formats as since"),
+    clusters: z.number().int().min(1).optional().describe("Number of clusters (default: based on how much memory there is)"),
+  },
+  async ({ since, until, clusters }) => {
+    try {
+      const map = await clusterMemory({ since, until, clusters });
+
+      if (map.length === 0) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "No journal entries in this period",
+            },
+          ],
+        };
+      }
+
+      const formatted = map.map((cluster, i) => {
+        const topics = cluster.topics.map((t) => `${t.topic} (${t.count})`).join(", ") || "(none)";
+        const lines = [
+          `## Cluster ${i + 1}: ${cluster.entryCount} entries, ${cluster.from.split("T")[0]} to ${cluster.to.split("T")[0]}`,
+          `Topics: ${topics}`,
+          `Files: ${cluster.files.length > 0 ? cluster.files.join(", ") : "(none)"}`,
+          "",
+          ...cluster.representatives.map(
+            (r) => `- ${r.timestamp} | Id: ${r.id}\n  ${r.content.slice(0, 200).replace(/\n/g, " ")}${r.content.length > 200 ? "..." : ""}`
+          ),
+        ];
+        return lines.join("\n");
+      });
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: formatted.join("\n\n"),
+          },
+        ],
+      };
+    } catch (err) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Topic map error: ${String(err)}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
 // Tool: manage_index
 server.tool(
   "manage_index",
   "Manage search indexes. Target 'memory' for journal/entities, 'conversations' for past Claude Code sessions.",
   {
     target: z.enum(["memory", "conversations"]).describe("Which index to manage"),
-    action: z.enum(["rebuild", "update", "stats"]).describe("'rebuild' to reindex from scratch, 'update' for incremental (conversations only), 'stats' to get counts"),
+    action: z
+      .enum(["rebuild", "update", "stats", "verify", "repair"])
+      .describe(
+        "'rebuild' to reindex from scratch, 'update' for incremental (conversations only), 'stats' to get counts, 'verify' to compare the index with the files on disk, 'repair' to fix what verify finds without a full rebuild"
+      ),
   },
   async ({ target, action }) => {
     try {
+      const name = target === "memory" ? "Memory" : "Conversation";
+      if (action === "verify" || action === "repair") {
+        const report =
+          target === "memory"
+            ? await (action === "verify" ? verifyIndex() : repairIndex())
+            : await (action === "verify" ? verifyConversationIndex() : repairConversationIndex());
+        return {
+          content: [{ type: "text" as const, text: formatIndexReport(name, report, action === "repair") }],
+        };
+      }
+
       if (target === "memory") {
         if (action === "rebuild" || action === "update") {
           const result = await rebuildIndex();
@@ -436,6 +925,69 @@ server.tool(
   }
 );
 
+// Tool: add_watch
+server.tool(
+  "add_watch",
+  "Register a standing query, e.g. 'anything about the billing migration'. Whenever new journal entries, entity sections or conversations are indexed, the daemon reports matches as a watch-match update at the start of the next session. Memory that already matches isn't reported.",
+  {
+    id: z.string().describe("Unique identifier for this watch"),
+    query: z.string().describe("What to watch for"),
+    threshold: z.number().min(0).max(1).default(DEFAULT_WATCH_THRESHOLD).describe("Minimum similarity (0-1) for a match. Raise it if the watch is too noisy"),
+  },
+  async ({ id, query, threshold }) => {
+    try {
+      addWatch({ id, query, threshold, createdAt: new Date().toISOString() });
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Watching for: ${query}`,
+          },
+        ],
+      };
+    } catch (err) {
+      return {
+        content: [{ type: "text" as const, text: `Failed to add watch: ${String(err)}` }],
+      };
+    }
+  }
+);
+
+// Tool: list_watches
+server.tool("list_watches", "List standing watch queries", {}, async () => {
+  const watches = loadWatches().map(({ seen, ...watch }) => ({ ...watch, matched: seen?.length ?? 0 }));
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(watches, null, 2),
+      },
+    ],
+  };
+});
+
+// Tool: remove_watch
+server.tool(
+  "remove_watch",
+  "Remove a standing watch query",
+  {
+    id: z.string().describe("ID of the watch to remove"),
+  },
+  async ({ id }) => {
+    const removed = removeWatch(id);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: removed ? `Removed watch: ${id}` : `Watch not found: ${id}`,
+        },
+      ],
+    };
+  }
+);
+
 // Tool: save_conversation_summary
 server.tool(
   "save_conversation_summary",
@@ -460,11 +1012,11 @@ server.tool(
       timestamp: new Date().toISOString(),
       topic: "conversation-summary",
       content: parts.join("\n"),
-      metadata: { source: "conversation" },
+      metadata: { source: "conversation", ...getProjectMetadata() },
     };
 
     const journalPath = getTodayJournalPath();
-    appendFileSync(journalPath, JSON.stringify(entry) + "\n");
+    withLock(journalPath, () => appendFileSync(journalPath, JSON.stringify(entry) + "\n"));
 
     // Index for semantic search
     try {
@@ -526,8 +1078,10 @@ server.tool(
     query: z.string().describe("What to search for (e.g., 'fixing TypeScript errors', 'performance optimization')"),
     projectOnly: z.boolean().default(false).describe("Only search current project (default: search all but boost current)"),
     limit: z.number().default(5).describe("Maximum results to return"),
+    explain: z.boolean().default(false).describe("Show how each score was made up: similarity, time weight and project boost, plus the best-matching sentence"),
+    diversity: z.number().min(0).max(1).optional().describe("0-1: push down exchanges that are near-duplicates of ones above (default from config, usually 0)"),
   },
-  async ({ query, projectOnly, limit }) => {
+  async ({ query, projectOnly, limit, explain, diversity }) => {
     try {
       // Get current project from CWD environment (set by hook)
       const currentProject = process.env.CLAUDE_PROJECT_DIR;
@@ -536,6 +1090,8 @@ server.tool(
         currentProject,
         projectOnly,
         limit,
+        explain,
+        diversity,
       });
 
       if (results.length === 0) {
@@ -553,9 +1109,12 @@ server.tool(
       const formatted = results.map((r, i) => {
         const date = new Date(r.exchange.timestamp).toLocaleDateString();
         const branch = r.exchange.branch ? ` (${r.exchange.branch})` : "";
+        const why = r.explain
+          ? `\n    Score: ${r.adjustedScore.toFixed(3)} = similarity ${r.explain.similarity.toFixed(3)} x time ${r.explain.timeWeight} x project ${r.explain.projectBoost}\n    Match: ${r.explain.highlight}`
+          : "";
         return `[${i + 1}] ${r.exchange.project}${branch} - ${date}
     "${r.exchange.userPrompt.slice(0, 200)}${r.exchange.userPrompt.length > 200 ? "..." : ""}"
-    Session: ${r.exchange.sessionId}`;
+    Session: ${r.exchange.sessionId}${why}`;
       }).join("\n\n");
 
       return {
@@ -579,6 +1138,77 @@ server.tool(
   }
 );
 
+// Tool: search_everything
+server.tool(
+  "search_everything",
+  "Search memory, past Claude Code conversations and past OpenCode conversations at once. Their rankings are fused into one list, so results from different sources can be compared. Each result says how to expand it.",
+  {
+    query: z.string().describe("What to search for"),
+    origins: z
+      .array(z.enum(["memory", "claude-code", "opencode"]))
+      .optional()
+      .describe("Only search these sources (default: all)"),
+    limit: z.number().default(10).describe("Maximum results to return"),
+  },
+  async ({ query, origins, limit }) => {
+    try {
+      const { hits, skipped } = await searchEverything(query, {
+        limit,
+        origins: origins as SearchOrigin[] | undefined,
+        currentProject: process.env.CLAUDE_PROJECT_DIR,
+      });
+      const skippedNote = skipped.map((s) => `(skipped ${s.origin}: ${s.error})`).join("\n");
+
+      if (hits.length === 0) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: ["(no matches found)", skippedNote].filter(Boolean).join("\n"),
+            },
+          ],
+        };
+      }
+
+      const formatted = hits.map((r, i) => formatEverythingHit(r, i)).join("\n\n---\n\n");
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: [formatted, skippedNote].filter(Boolean).join("\n\n"),
+          },
+        ],
+      };
+    } catch (err) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Search error: ${String(err)}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+/**
+ * Format a fused search hit, with the tool call that expands it
+ */
+function formatEverythingHit(hit: UnifiedSearchHit, index: number): string {
+  const header = `[${index + 1}] ${hit.origin}: ${hit.title} (score: ${hit.score.toFixed(3)})`;
+  const meta = hit.timestamp ? `  Date: ${hit.timestamp}` : "";
+  const expand =
+    "path" in hit.expand
+      ? `  File: ${hit.expand.path}${hit.expand.section ? ` > ${hit.expand.section}` : ""}\n  Id: ${hit.expand.id} (use get_related to explore)`
+      : hit.origin === "claude-code"
+        ? `  Session: ${hit.expand.sessionPath}\n  Message: ${hit.expand.messageUuid} (use expand_conversation to see the exchange)`
+        : `  Session: ${hit.expand.sessionPath}\n  Message: ${hit.expand.messageUuid}`;
+  const content = hit.content.slice(0, 500) + (hit.content.length > 500 ? "..." : "");
+  return [header, meta, expand, content].filter(Boolean).join("\n");
+}
+
 // Tool: expand_conversation  
 server.tool(
   "expand_conversation",
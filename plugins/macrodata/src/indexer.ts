@@ -3,20 +3,54 @@
  *
  * Manages the vector index for semantic search over:
  * - Journal entries
- * - People files
- * - Project files
+ * - Entity files (people, projects and any other category)
+ * - Topic files
+ * - State files (identity, human, today, workspace)
  *
- * Uses Vectra for storage and embeddings.ts for vector generation.
+ * Uses a SQLite vector store (vector-store.ts) for storage and full-text
+ * search, and embeddings.ts for vector generation.
  */
 
-import { LocalIndex } from "vectra";
-import { join, basename } from "path";
-import { readFileSync, readdirSync, existsSync, mkdirSync } from "fs";
-import { embed, embedBatch, preloadModel as preloadEmbeddings } from "./embeddings.js";
-import { getIndexDir, getEntitiesDir, getJournalDir } from "./config.js";
+import { join, basename, relative, sep } from "path";
+import { readFileSync, readdirSync, existsSync } from "fs";
+import { createHash } from "crypto";
+import {
+  embed,
+  embedBatch,
+  getEmbeddingProvider,
+  preloadModel as preloadEmbeddings,
+} from "./embeddings.js";
+import { forgetEmbeddings, pruneEmbeddingCache } from "./embedding-cache.js";
+import { createIndexReport, type IndexReport } from "./index-health.js";
+import { checkIndexMeta } from "./index-meta.js";
+import { withLock } from "./lock.js";
+import { logger } from "./logger.js";
+import {
+  VectorStore,
+  migrateVectraIndex,
+  type ItemMetadata,
+  type MetadataFilter,
+  type StoreMatch,
+} from "./vector-store.js";
+import { parseDateExpression } from "./dates.js";
+import { kMeans } from "./clustering.js";
+import { getIndexDir, getEntitiesDir, getJournalDir, getTopicsDir, getStateDir, getSearchConfig } from "./config.js";
+import {
+  cosineSimilarity,
+  highlightMatch,
+  maximalMarginalRelevance,
+  reciprocalRankFusion,
+  type SearchMode,
+} from "./ranking.js";
 
-// Item types for filtering
-export type MemoryItemType = "journal" | "person" | "project";
+export type { SearchMode } from "./ranking.js";
+
+// Item types for filtering. Entity categories other than people and
+// projects are "entity:" and their directory name (e.g. "entity:documents"),
+// so a category can't share a type or ids with topic or state files.
+export type MemoryItemType = "journal" | "person" | "project" | "topic" | "state" | (string & {});
+
+const BUILT_IN_TYPES = new Set(["journal", "person", "project", "topic", "state"]);
 
 export interface MemoryItem {
   id: string;
@@ -25,74 +59,256 @@ export interface MemoryItem {
   source: string;
   section?: string;
   timestamp?: string;
+  /** Id of the section or entry this is a chunk of, if it was split */
+  parentId?: string;
+  /** Journal entry topic */
+  topic?: string;
+  /** Journal entry metadata.source from log_journal, e.g. "conversation" */
+  entrySource?: string;
+  /** Journal entry metadata.intent from log_journal */
+  intent?: string;
+  /** Journal entry tags */
+  tags?: string[];
+  /** Entity files a journal entry is about, e.g. "people/alice.md" */
+  entities?: string[];
+  /** Journal entry importance, 1-5 */
+  importance?: number;
+  /** Project a journal entry belongs to */
+  project?: string;
+  /** Directory of the session a journal entry was logged in */
+  projectPath?: string;
+  /** Git branch checked out when a journal entry was logged */
+  branch?: string;
+}
+
+/**
+ * Optional fields logged with a journal entry
+ */
+export interface JournalEntryMetadata {
+  source?: string;
+  intent?: string;
+  tags?: string[];
+  /** Entity files the entry is about, e.g. "people/alice.md" */
+  entities?: string[];
+  /** 1 (trivia) to 5 (critical) */
+  importance?: number;
+  project?: string;
+  /** Directory of the session the entry was logged in, stamped automatically */
+  projectPath?: string;
+  /** Git branch checked out in that directory */
+  branch?: string;
+}
+
+export interface SearchFilters {
+  type?: MemoryItemType;
+  /** Journal topic, or a list of topics to match any of */
+  topic?: string | string[];
+  /** Journal entry source, as logged, e.g. "conversation" or "cron" */
+  entrySource?: string;
+  /** Text the journal entry's intent contains (case-insensitive) */
+  intent?: string;
+  /** Journal tag, or a list of tags to match any of (case-insensitive) */
+  tags?: string | string[];
+  /** Entity file the journal entry is linked to, e.g. "people/alice.md" or "people/alice" */
+  entity?: string;
+  /** Journal entries with at least this importance, 1-5 */
+  minImportance?: number;
+  /** Journal entries for this project (case-insensitive) */
+  project?: string;
+  /** Journal entries logged in this project directory */
+  projectPath?: string;
+  /**
+   * File the item comes from, as shown in results, e.g. "people/alice.md"
+   * or "people/alice", or a directory such as "people"
+   */
+  path?: string;
+  /** Lower date bound: an ISO date or relative expression such as "last week" or "7d" */
+  since?: string;
+  /** Upper date bound, inclusive of whole days */
+  until?: string;
 }
 
 export interface SearchResult {
+  /** Id of the section or entry, for get_related */
+  id: string;
   content: string;
   source: string;
   section?: string;
   timestamp?: string;
   type: MemoryItemType;
   score: number;
+  /** Score breakdown, with the explain option */
+  explain?: SearchExplanation;
 }
 
-// Cached index instance with path tracking
-let index: LocalIndex | null = null;
-let indexPath: string | null = null;
+export interface SearchExplanation {
+  mode: SearchMode;
+  /** Cosine similarity to the query, if the item was in the vector ranking */
+  similarity?: number;
+  /** 1-based position in the vector ranking */
+  vectorRank?: number;
+  /** BM25 score, if the item matched the query's keywords */
+  keywordScore?: number;
+  /** 1-based position in the keyword ranking */
+  keywordRank?: number;
+  /** Multiplier for journal entries from the current project, if one was given */
+  projectBoost?: number;
+  /** Sentence of the content that best matches the query, terms in ** */
+  highlight: string;
+}
+
+export interface RelatedItem extends Omit<SearchResult, "score"> {
+  /** Why the item is related, e.g. "mentions alice" or "same day" */
+  reason: string;
+}
+
+export interface RelatedItems {
+  item: Omit<SearchResult, "score">;
+  /** Nearest neighbours by vector */
+  similar: SearchResult[];
+  /** Entity and topic sections sharing links or mentions with the item */
+  linked: RelatedItem[];
+  /** Journal entries from the same day or topic, or mentioning the entity */
+  journal: RelatedItem[];
+}
+
+export interface JournalDuplicate {
+  id: string;
+  timestamp: string;
+  topic: string;
+  /** Indexed content, prefixed with the topic */
+  content: string;
+  /** Cosine similarity to the new entry */
+  similarity: number;
+}
+
+export interface DuplicateCluster {
+  /** Entries in the cluster, oldest first */
+  entries: Array<Omit<JournalDuplicate, "similarity">>;
+  /** Lowest similarity among the pairs that linked the cluster */
+  minSimilarity: number;
+}
+
+export interface TopicCluster {
+  /** Journal topics in the cluster, most frequent first */
+  topics: Array<{ topic: string; count: number }>;
+  /** Entity and topic files with sections in the cluster, e.g. "projects/macrodata.md" */
+  files: string[];
+  /** Journal entries in the cluster */
+  entryCount: number;
+  /** Journal entries closest to the cluster's centre */
+  representatives: Array<Omit<SearchResult, "score">>;
+  /** Timestamps of the oldest and newest entry */
+  from: string;
+  to: string;
+}
+
+// Bump when the way files are split into items, or the metadata stored
+// for them, changes
+const CHUNKING_VERSION = 7;
+
+// all-MiniLM truncates input at 256 tokens, so longer sections and entries
+// are split into overlapping windows of words that fit
+const CHUNK_WORDS = 150;
+const CHUNK_OVERLAP_WORDS = 30;
+
+// Persistent cache of item vectors, so rebuilds only embed changed text
+const EMBEDDING_CACHE = "memory";
+
+// Journal entries at least this similar are treated as the same observation
+const DUPLICATE_THRESHOLD = 0.9;
+
+// How far back log_journal looks for duplicates of a new entry
+const DUPLICATE_WINDOW_DAYS = 30;
+
+// Possible duplicates reported for a new entry
+const MAX_DUPLICATES = 3;
+
+// Journal entries from the current project rank this much higher, as
+// conversations from it do
+const PROJECT_BOOST = 1.5;
+
+// Most clusters in a topic map, however much memory there is
+const MAX_TOPIC_CLUSTERS = 20;
+
+// Cached index instance with path and model tracking
+let index: VectorStore | null = null;
+let indexModel: string | null = null;
+
+let rebuildInProgress: Promise<{ itemCount: number }> | null = null;
 
 /**
  * Get or create the vector index
- * Re-creates if the configured path has changed
+ * Re-opens if the configured path or embedding model has changed. An index
+ * from before the SQLite store is migrated, and if the index was built with
+ * a different model or chunking, it is cleared and rebuilt in the
+ * background.
  */
-async function getIndex(): Promise<LocalIndex> {
+async function getIndex(): Promise<VectorStore> {
   const currentIndexDir = getIndexDir();
-  const currentIndexPath = join(currentIndexDir, "vectors");
+  const currentIndexPath = join(currentIndexDir, "memory.sqlite");
+  const currentModel = getEmbeddingProvider().id;
 
-  // Invalidate cache if path changed
-  if (index && indexPath !== currentIndexPath) {
+  // Invalidate cache if path or model changed
+  if (index && (index.path !== currentIndexPath || indexModel !== currentModel)) {
+    index.close();
     index = null;
-    indexPath = null;
+    indexModel = null;
   }
 
   if (index) return index;
 
-  // Ensure index directory exists
-  if (!existsSync(currentIndexDir)) {
-    mkdirSync(currentIndexDir, { recursive: true });
-  }
+  index = new VectorStore(currentIndexPath);
+  indexModel = currentModel;
 
-  index = new LocalIndex(currentIndexPath);
-  indexPath = currentIndexPath;
+  const migrated = migrateVectraIndex(index, join(currentIndexDir, "vectors"), (meta) => String(meta.content ?? ""));
+  if (migrated > 0) {
+    logger.log(`[Indexer] Migrated ${migrated} items from the Vectra index`);
+  }
 
-  // Create if doesn't exist
-  if (!(await index.isIndexCreated())) {
-    console.log("[Indexer] Creating new index...");
-    await index.createIndex();
+  // Indexes from before chunking (including those with legacy journal
+  // ids) fail this check and are rebuilt from the files on disk
+  const mismatch = await checkIndexMeta(index, CHUNKING_VERSION);
+  if (mismatch) {
+    logger.log(`[Indexer] Index ${mismatch}. Rebuilding in the background...`);
+    rebuildIndex().catch((err) => {
+      logger.error(`[Indexer] Background rebuild failed: ${String(err)}`);
+    });
   }
 
   return index;
 }
 
-/**
- * Add or update a single item in the index
- */
-export async function indexItem(item: MemoryItem): Promise<void> {
-  const idx = await getIndex();
-  const vector = await embed(item.content);
-
-  const metadata: Record<string, string | number | boolean> = {
+function itemMetadata(item: MemoryItem): ItemMetadata {
+  const metadata: ItemMetadata = {
     type: item.type,
     content: item.content,
     source: item.source,
   };
   if (item.section) metadata.section = item.section;
   if (item.timestamp) metadata.timestamp = item.timestamp;
+  if (item.parentId) metadata.parentId = item.parentId;
+  if (item.topic) metadata.topic = item.topic;
+  if (item.entrySource) metadata.entrySource = item.entrySource;
+  if (item.intent) metadata.intent = item.intent;
+  // Metadata values are scalars, so lists are stored comma-separated
+  if (item.tags?.length) metadata.tags = item.tags.join(",");
+  if (item.entities?.length) metadata.entities = item.entities.join(",");
+  if (item.importance) metadata.importance = item.importance;
+  if (item.project) metadata.project = item.project;
+  if (item.projectPath) metadata.projectPath = item.projectPath;
+  if (item.branch) metadata.branch = item.branch;
+  return metadata;
+}
 
-  await idx.upsertItem({
-    id: item.id,
-    vector,
-    metadata,
-  });
+/**
+ * Add or update a single item in the index
+ */
+export async function indexItem(item: MemoryItem): Promise<void> {
+  const idx = await getIndex();
+  const vector = await embed(item.content, { cache: EMBEDDING_CACHE });
+
+  withLock(idx.path, () => idx.upsert([{ id: item.id, vector, metadata: itemMetadata(item), text: item.content }]));
 }
 
 /**
@@ -102,74 +318,488 @@ export async function indexItems(items: MemoryItem[]): Promise<void> {
   if (items.length === 0) return;
 
   const idx = await getIndex();
-  const vectors = await embedBatch(items.map((i) => i.content));
-
-  for (let i = 0; i < items.length; i++) {
-    const item = items[i];
-    const metadata: Record<string, string | number | boolean> = {
-      type: item.type,
-      content: item.content,
-      source: item.source,
-    };
-    if (item.section) metadata.section = item.section;
-    if (item.timestamp) metadata.timestamp = item.timestamp;
+  const vectors = await embedBatch(items.map((i) => i.content), { cache: EMBEDDING_CACHE });
 
-    await idx.upsertItem({
-      id: item.id,
-      vector: vectors[i],
-      metadata,
-    });
-  }
+  withLock(idx.path, () =>
+    idx.upsert(
+      items.map((item, i) => ({ id: item.id, vector: vectors[i], metadata: itemMetadata(item), text: item.content }))
+    )
+  );
+}
+
+/**
+ * Remove items from a source file that are no longer present in it
+ * Each item records its source file in metadata, so that is used to find
+ * the ids belonging to a file. The type is matched too, as an entity
+ * category can share a source path with topic or state files (e.g.
+ * entities/state/x.md and state/x.md). Pass no ids to remove everything
+ * from it.
+ */
+export async function removeStaleItems(source: string, type: MemoryItemType, keepIds: string[] = []): Promise<number> {
+  const idx = await getIndex();
+  const keep = new Set(keepIds);
+
+  return withLock(idx.path, () => {
+    const stale = idx.listIdsBySource(source, type).filter((id) => !keep.has(id));
+    idx.delete(stale);
+    return stale.length;
+  });
 }
 
 /**
  * Search the index
+ *
+ * Modes:
+ * - semantic: cosine similarity over embeddings
+ * - keyword: full-text search over item content, ranked by BM25
+ * - hybrid: both rankings combined with reciprocal rank fusion
  */
 export async function searchMemory(
   query: string,
-  options: {
+  options: SearchFilters & {
     limit?: number;
-    type?: MemoryItemType;
-    since?: string;
+    mode?: SearchMode;
+    /** Include a score breakdown and highlight with each result */
+    explain?: boolean;
+    /** 0-1, how strongly to push down results like ones ranked above them (default from config) */
+    diversity?: number;
+    /** Path to the current project, whose journal entries are boosted */
+    currentProject?: string;
+    /** Only items indexed or changed at or after this time (ms since epoch) */
+    indexedSince?: number;
   } = {}
 ): Promise<SearchResult[]> {
-  const { limit = 5, type, since } = options;
+  const {
+    limit = 5,
+    mode = "hybrid",
+    explain = false,
+    diversity = getSearchConfig().diversity,
+    currentProject,
+    indexedSince,
+  } = options;
+  const filter = buildFilter(options);
   const idx = await getIndex();
 
   // Check if index has items
-  const stats = await idx.listItems();
-  if (stats.length === 0) {
-    console.log("[Indexer] Index is empty");
+  if (idx.count() === 0) {
+    logger.log("[Indexer] Index is empty");
     return [];
   }
 
-  const queryVector = await embed(query);
-  const results = await idx.queryItems(queryVector, limit * 2);
+  // Extra candidates, as chunks of the same section collapse into one result
+  const candidateCount = limit * 3;
+  const vectorResults =
+    mode === "keyword"
+      ? []
+      : idx.query(await embed(query), candidateCount, filter, { indexedSince, withVectors: diversity > 0 });
+  const keywordResults = mode === "semantic" ? [] : idx.search(query, candidateCount, filter, { indexedSince });
+  let scored: StoreMatch[];
 
-  // Filter results if type or since specified
-  let filtered = results;
-  if (type || since) {
-    filtered = results.filter((item) => {
-      const meta = item.item.metadata as Record<string, unknown>;
-      if (type && meta.type !== type) return false;
-      if (since && meta.timestamp && (meta.timestamp as string) < since) return false;
-      return true;
-    });
+  if (mode === "semantic") {
+    scored = vectorResults;
+  } else if (mode === "keyword") {
+    scored = keywordResults;
+  } else {
+    const fused = reciprocalRankFusion([vectorResults.map((r) => r.id), keywordResults.map((r) => r.id)]);
+
+    // Prefer the vector match, which carries the vector for diversifying
+    const byId = new Map([...keywordResults, ...vectorResults].map((r) => [r.id, r]));
+    scored = [...fused]
+      .map(([id, score]) => ({ ...byId.get(id)!, score }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  const projectBoost = (meta: ItemMetadata) =>
+    currentProject && meta.projectPath === currentProject ? PROJECT_BOOST : 1;
+  if (currentProject) {
+    scored = scored
+      .map((r) => ({ ...r, score: r.score * projectBoost(r.metadata) }))
+      .sort((a, b) => b.score - a.score);
   }
 
-  return filtered.slice(0, limit).map((r) => {
-    const meta = r.item.metadata as Record<string, unknown>;
+  // Keep only the best scoring chunk of each section or entry
+  const seen = new Set<string>();
+  const collapsed = scored.filter(({ id, metadata: meta }) => {
+    const parentId = (meta.parentId as string | undefined) ?? id;
+    if (seen.has(parentId)) return false;
+    seen.add(parentId);
+    return true;
+  });
+
+  // Spread results across topics instead of near-duplicates of the best one
+  const picked = maximalMarginalRelevance(collapsed, {
+    limit,
+    diversity,
+    score: (r) => r.score,
+    // Keyword-only matches weren't scored by vector, so fetch theirs
+    vector: (r) => r.vector ?? idx.get(r.id)?.vector,
+  });
+
+  const results = picked.map(({ id, metadata: meta, score }) => ({ ...toResult(id, meta), score }));
+  if (!explain) return results;
+
+  const vectorRanks = new Map(vectorResults.map((r, i) => [r.id, { score: r.score, rank: i + 1 }]));
+  const keywordRanks = new Map(keywordResults.map((r, i) => [r.id, { score: r.score, rank: i + 1 }]));
+
+  return results.map((result, i) => {
+    // Explain the chunk that matched, which may not be the section's first
+    const { id } = picked[i];
+    const vector = vectorRanks.get(id);
+    const keyword = keywordRanks.get(id);
     return {
-      content: meta.content as string,
-      source: meta.source as string,
-      section: meta.section as string | undefined,
-      timestamp: meta.timestamp as string | undefined,
-      type: meta.type as MemoryItemType,
-      score: r.score,
+      ...result,
+      explain: {
+        mode,
+        similarity: vector?.score,
+        vectorRank: vector?.rank,
+        keywordScore: keyword?.score,
+        keywordRank: keyword?.rank,
+        ...(currentProject && { projectBoost: projectBoost(picked[i].metadata) }),
+        highlight: highlightMatch(query, result.content),
+      },
     };
   });
 }
 
+/**
+ * Build a metadata predicate from search filters
+ * Returns undefined if there are no filters. Date bounds only apply to
+ * items with a timestamp (journal entries); entity, topic and state
+ * sections aren't excluded by them.
+ */
+function buildFilter(filters: SearchFilters): MetadataFilter | undefined {
+  const { entrySource, path, entity, minImportance, projectPath } = filters;
+  const type = filters.type && resolveTypeFilter(filters.type);
+  const topics = filters.topic === undefined ? null : new Set([filters.topic].flat());
+  const tags = filters.tags === undefined ? null : new Set([filters.tags].flat().map((tag) => tag.toLowerCase()));
+  const intent = filters.intent?.toLowerCase();
+  const project = filters.project?.toLowerCase();
+  const sinceDate = filters.since ? parseDateExpression(filters.since) : undefined;
+  const since = sinceDate ? Date.parse(sinceDate) : null;
+  const until = filters.until ? Date.parse(parseDateExpression(filters.until, { end: true, after: sinceDate })) : null;
+  const dir = path?.replace(/\/?$/, "/");
+
+  if (
+    !type &&
+    !topics &&
+    !entrySource &&
+    !intent &&
+    !path &&
+    !tags &&
+    !entity &&
+    !minImportance &&
+    !project &&
+    !projectPath &&
+    since === null &&
+    until === null
+  ) {
+    return undefined;
+  }
+
+  return (meta) => {
+    if (type && meta.type !== type) return false;
+    if (topics && !topics.has(meta.topic as string)) return false;
+    if (entrySource && meta.entrySource !== entrySource) return false;
+    if (intent && !String(meta.intent ?? "").toLowerCase().includes(intent)) return false;
+    if (tags && !splitList(meta.tags).some((tag) => tags.has(tag.toLowerCase()))) return false;
+    if (entity && !splitList(meta.entities).some((e) => e === entity || e === `${entity}.md`)) return false;
+    if (minImportance && Number(meta.importance ?? 0) < minImportance) return false;
+    if (project && String(meta.project ?? "").toLowerCase() !== project) return false;
+    if (projectPath && meta.projectPath !== projectPath) return false;
+    if (path) {
+      const source = String(meta.source);
+      if (source !== path && source !== `${path}.md` && !source.startsWith(dir!)) return false;
+    }
+    if (meta.timestamp) {
+      const timestamp = Date.parse(meta.timestamp as string);
+      if (since !== null && timestamp < since) return false;
+      if (until !== null && timestamp > until) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Split a comma-separated metadata list
+ */
+function splitList(value: unknown): string[] {
+  return typeof value === "string" && value ? value.split(",") : [];
+}
+
+/**
+ * Convert stored metadata to a result, identified by its parent section
+ */
+function toResult(id: string, meta: Record<string, unknown>): Omit<SearchResult, "score"> {
+  return {
+    id: (meta.parentId as string | undefined) ?? id,
+    content: meta.content as string,
+    source: meta.source as string,
+    section: meta.section as string | undefined,
+    timestamp: meta.timestamp as string | undefined,
+    type: meta.type as MemoryItemType,
+  };
+}
+
+/**
+ * Get the entity or topic name an item belongs to, from its file name
+ * Journal entries have no name, and state files are skipped as their
+ * names ("today", "human") are ordinary words.
+ */
+function getItemName(meta: Record<string, unknown>): string | null {
+  if (meta.type === "journal" || meta.type === "state") return null;
+  return basename(String(meta.source), ".md");
+}
+
+/**
+ * Find which of the given names are mentioned in some text
+ * Matches whole words case-insensitively, treating hyphens in file names as
+ * spaces or hyphens, so "jane-doe" matches "Jane Doe" and [[jane-doe]].
+ */
+function findMentions(text: string, names: Map<string, RegExp>): Set<string> {
+  const mentioned = new Set<string>();
+  for (const [name, pattern] of names) {
+    if (pattern.test(text)) mentioned.add(name);
+  }
+  return mentioned;
+}
+
+function getJournalTopic(content: string): string | null {
+  return content.match(/^\[([^\]]+)\]/)?.[1] ?? null;
+}
+
+/**
+ * Find items associated with a memory item
+ *
+ * Takes an id from search results (or any chunk id) and returns:
+ * - similar: nearest neighbours by vector, excluding the item itself
+ * - linked: entity and topic sections that mention the same entities as
+ *   the item, or that the item's own entity mentions
+ * - journal: for journal entries, other entries from the same day or topic;
+ *   for entity items, entries mentioning the entity
+ *
+ * Returns null if the id isn't in the index.
+ */
+export async function getRelated(id: string, options: { limit?: number } = {}): Promise<RelatedItems | null> {
+  const { limit = 5 } = options;
+  const idx = await getIndex();
+  const target = idx.get(id);
+  if (!target) return null;
+
+  const items = idx.list();
+  const parentOf = (item: { id: string; metadata: ItemMetadata }) => (item.metadata.parentId as string | undefined) ?? item.id;
+
+  const parentId = parentOf(target);
+  const chunks = items.filter((item) => parentOf(item) === parentId);
+  const anchor = chunks.find((item) => item.id === parentId) ?? target;
+  const anchorText = chunks.map((item) => String(item.metadata.content ?? "")).join("\n");
+  const others = items.filter((item) => parentOf(item) !== parentId);
+
+  // Vector neighbours, one per section
+  const similar: SearchResult[] = [];
+  const seen = new Set([parentId]);
+  const neighbours = idx.query(target.vector, (limit + chunks.length) * 3);
+  for (const r of neighbours) {
+    const neighbourParent = parentOf(r);
+    if (seen.has(neighbourParent)) continue;
+    seen.add(neighbourParent);
+    similar.push({ ...toResult(r.id, r.metadata), score: r.score });
+    if (similar.length === limit) break;
+  }
+
+  // Entity names, skipping very short ones that would match too often
+  const names = new Map<string, RegExp>();
+  for (const item of items) {
+    const name = getItemName(item.metadata);
+    if (name && name.length >= 3 && !names.has(name)) {
+      const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/-/g, "[-\\s]");
+      names.set(name, new RegExp(`\\b${escaped}\\b`, "i"));
+    }
+  }
+
+  const anchorName = getItemName(anchor.metadata);
+  const anchorMentions = findMentions(anchorText, names);
+  if (anchorName) anchorMentions.add(anchorName);
+
+  // Entity and topic files sharing mentions, one section per file, ranked
+  // by how many names they share
+  const linked: Array<RelatedItem & { shared: number }> = [];
+  const linkedSources = new Set<string>();
+  for (const item of others) {
+    const itemName = getItemName(item.metadata);
+    const source = String(item.metadata.source);
+    if (!itemName || linkedSources.has(source)) continue;
+
+    const mentions = findMentions(String(item.metadata.content ?? ""), names);
+    mentions.add(itemName);
+    const shared = [...mentions].filter((name) => anchorMentions.has(name) && name !== anchorName);
+    const mentionsAnchor = anchorName !== null && itemName !== anchorName && mentions.has(anchorName);
+    if (shared.length === 0 && !mentionsAnchor) continue;
+
+    let reason: string;
+    if (itemName !== anchorName && anchorMentions.has(itemName)) {
+      reason = `${itemName} is mentioned`;
+    } else if (mentionsAnchor) {
+      reason = `mentions ${anchorName}`;
+    } else {
+      reason = `also mentions ${shared.join(", ")}`;
+    }
+
+    linkedSources.add(source);
+    linked.push({
+      ...toResult(item.id, item.metadata),
+      reason,
+      shared: shared.length + (mentionsAnchor ? 1 : 0),
+    });
+  }
+  linked.sort((a, b) => b.shared - a.shared);
+
+  // Journal entries from the same day or topic, or mentioning the entity
+  const journal: RelatedItem[] = [];
+  const journalParents = new Set<string>();
+  const anchorDay = anchor.metadata.type === "journal" ? String(anchor.metadata.timestamp ?? "").split("T")[0] : null;
+  const anchorTopic = anchor.metadata.type === "journal" ? getJournalTopic(String(anchor.metadata.content)) : null;
+  const journalItems = others
+    .filter((item) => item.metadata.type === "journal")
+    .sort((a, b) => String(b.metadata.timestamp ?? "").localeCompare(String(a.metadata.timestamp ?? "")));
+  for (const item of journalItems) {
+    if (journalParents.has(parentOf(item))) continue;
+
+    const content = String(item.metadata.content ?? "");
+    let reason: string | null = null;
+    if (anchorDay && String(item.metadata.timestamp ?? "").startsWith(anchorDay)) {
+      reason = "same day";
+    } else if (anchorTopic && getJournalTopic(content) === anchorTopic) {
+      reason = `same topic (${anchorTopic})`;
+    } else if (anchorName && names.get(anchorName)?.test(content)) {
+      reason = `mentions ${anchorName}`;
+    }
+    if (!reason) continue;
+
+    journalParents.add(parentOf(item));
+    journal.push({ ...toResult(item.id, item.metadata), reason });
+  }
+
+  return {
+    item: toResult(anchor.id, anchor.metadata),
+    similar,
+    linked: linked.slice(0, limit).map(({ shared: _shared, ...item }) => item),
+    journal: journal.slice(0, limit),
+  };
+}
+
+/**
+ * Split text into overlapping windows of words
+ * Text that fits in one window is returned unchanged. Chunks are slices of
+ * the original text, so line breaks and formatting are kept.
+ */
+export function chunkText(text: string, maxWords = CHUNK_WORDS, overlap = CHUNK_OVERLAP_WORDS): string[] {
+  const words = [...text.matchAll(/\S+/g)];
+  if (words.length <= maxWords) return [text];
+
+  const chunks: string[] = [];
+  for (let start = 0; ; start += maxWords - overlap) {
+    const end = Math.min(start + maxWords, words.length);
+    const last = words[end - 1];
+    chunks.push(text.slice(words[start].index, last.index + last[0].length));
+    if (end === words.length) break;
+  }
+  return chunks;
+}
+
+/**
+ * Build the items for a section or entry, chunking it if it is long
+ * The prefix (section heading or journal topic) is repeated on every chunk
+ * so each has context. The first chunk keeps the item's id; the others get
+ * a #n suffix, and all of them record the item's id as parentId.
+ */
+function chunkItem(item: Omit<MemoryItem, "content">, prefix: string, body: string): MemoryItem[] {
+  const chunks = chunkText(body);
+  if (chunks.length === 1) {
+    return [{ ...item, content: prefix + body }];
+  }
+
+  return chunks.map((chunk, i) => ({
+    ...item,
+    id: i === 0 ? item.id : `${item.id}#${i}`,
+    content: prefix + chunk,
+    parentId: item.id,
+  }));
+}
+
+interface JournalEntryInput {
+  /** Id stored with the entry, kept when the entry is edited */
+  id?: string;
+  timestamp: string;
+  topic: string;
+  content: string;
+  metadata?: JournalEntryMetadata;
+}
+
+/**
+ * Build the index items for a journal entry
+ *
+ * The id is the one stored with the entry, or for entries logged without
+ * one, derived from the entry's timestamp and content. Either way
+ * incremental indexing (log_journal) and full rebuilds produce the same id
+ * and the entry is only ever indexed once. The source is the day's JSONL
+ * file.
+ */
+function journalEntryToItems(
+  entry: JournalEntryInput,
+  source = `${entry.timestamp.split("T")[0]}.jsonl`
+): MemoryItem[] {
+  return chunkItem(
+    {
+      id: getJournalEntryId(entry),
+      type: "journal",
+      source,
+      timestamp: entry.timestamp,
+      topic: entry.topic,
+      entrySource: entry.metadata?.source,
+      intent: entry.metadata?.intent,
+      tags: entry.metadata?.tags,
+      entities: entry.metadata?.entities,
+      importance: entry.metadata?.importance,
+      project: entry.metadata?.project,
+      projectPath: entry.metadata?.projectPath,
+      branch: entry.metadata?.branch,
+    },
+    `[${entry.topic}] `,
+    entry.content
+  );
+}
+
+function journalItemId(timestamp: string, content: string): string {
+  const hash = createHash("sha256").update(`${timestamp}\n${content}`).digest("hex");
+  return `journal-${hash.slice(0, 16)}`;
+}
+
+/**
+ * Get the stable index id for a journal entry
+ * New entries are logged with this id, and keep it when edited.
+ */
+export function getJournalEntryId(entry: { id?: string; timestamp: string; topic: string; content: string }): string {
+  return entry.id ?? journalItemId(entry.timestamp, `[${entry.topic}] ${entry.content}`);
+}
+
+/**
+ * Parse one day's journal file into items for indexing
+ */
+function parseJournalFile(content: string, file: string): MemoryItem[] {
+  const items: MemoryItem[] = [];
+  const lines = content.trim().split("\n").filter(Boolean);
+
+  for (const line of lines) {
+    try {
+      items.push(...journalEntryToItems(JSON.parse(line), file));
+    } catch {
+      // Skip malformed lines
+    }
+  }
+
+  return items;
+}
+
 /**
  * Parse journal files and return items for indexing
  */
@@ -183,23 +813,7 @@ function parseJournalForIndexing(): MemoryItem[] {
 
   for (const file of files) {
     try {
-      const content = readFileSync(join(journalDir, file), "utf-8");
-      const lines = content.trim().split("\n").filter(Boolean);
-
-      for (let i = 0; i < lines.length; i++) {
-        try {
-          const entry = JSON.parse(lines[i]);
-          items.push({
-            id: `journal-${file}-${i}`,
-            type: "journal",
-            content: `[${entry.topic}] ${entry.content}`,
-            source: file,
-            timestamp: entry.timestamp,
-          });
-        } catch {
-          // Skip malformed lines
-        }
-      }
+      items.push(...parseJournalFile(readFileSync(join(journalDir, file), "utf-8"), file));
     } catch {
       // Skip unreadable files
     }
@@ -209,11 +823,94 @@ function parseJournalForIndexing(): MemoryItem[] {
 }
 
 /**
- * Parse entity files (people, projects) for indexing
+ * Map an entity category (directory name) to its item type
+ * People and projects keep their original singular types; any other
+ * category is namespaced, e.g. "entity:documents" or "entity:state".
+ */
+function getEntityType(category: string): MemoryItemType {
+  if (category === "people") return "person";
+  if (category === "projects") return "project";
+  return `entity:${category}`;
+}
+
+/**
+ * Resolve a type filter, accepting a bare entity category such as
+ * "documents" for "entity:documents"
+ */
+function resolveTypeFilter(type: string): MemoryItemType {
+  return BUILT_IN_TYPES.has(type) || type.startsWith("entity:") ? type : `entity:${type}`;
+}
+
+/**
+ * List entity categories (subdirectories of the entities dir)
+ */
+function listEntityCategories(): string[] {
+  const entitiesDir = getEntitiesDir();
+  if (!existsSync(entitiesDir)) return [];
+
+  return readdirSync(entitiesDir, { withFileTypes: true })
+    .filter((d) => d.isDirectory() && !d.name.startsWith("."))
+    .map((d) => d.name);
+}
+
+/**
+ * Split an entity file into section-level items
+ */
+function parseEntityFile(content: string, category: string, file: string): MemoryItem[] {
+  const type = getEntityType(category);
+  return parseMarkdownSections(content, type, `${type}-${file.replace(".md", "")}`, `${category}/${file}`);
+}
+
+/**
+ * Split a markdown file into section-level items
+ * Item ids are `${idPrefix}-preamble` and `${idPrefix}-${n}` for the nth
+ * `## ` section.
+ */
+function parseMarkdownSections(
+  content: string,
+  type: MemoryItemType,
+  idPrefix: string,
+  source: string
+): MemoryItem[] {
+  const items: MemoryItem[] = [];
+
+  // Split by ## headers for section-level indexing
+  const sections = content.split(/^## /m);
+
+  // Preamble (before any ##)
+  if (sections[0].trim()) {
+    items.push(
+      ...chunkItem({ id: `${idPrefix}-preamble`, type, source, section: "preamble" }, "", sections[0].trim())
+    );
+  }
+
+  // Each section
+  for (let i = 1; i < sections.length; i++) {
+    const section = sections[i];
+    const firstLine = section.split("\n")[0];
+    const sectionTitle = firstLine.trim();
+    const sectionContent = section.slice(firstLine.length).trim();
+
+    if (sectionContent) {
+      items.push(
+        ...chunkItem(
+          { id: `${idPrefix}-${i}`, type, source, section: sectionTitle },
+          `## ${sectionTitle}\n\n`,
+          sectionContent
+        )
+      );
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Parse all entity files in a category for indexing
  */
-function parseEntitiesForIndexing(subdir: "people" | "projects", type: MemoryItemType): MemoryItem[] {
+function parseEntitiesForIndexing(category: string): MemoryItem[] {
   const items: MemoryItem[] = [];
-  const dir = join(getEntitiesDir(), subdir);
+  const dir = join(getEntitiesDir(), category);
 
   if (!existsSync(dir)) return items;
 
@@ -222,39 +919,45 @@ function parseEntitiesForIndexing(subdir: "people" | "projects", type: MemoryIte
   for (const file of files) {
     try {
       const content = readFileSync(join(dir, file), "utf-8");
-      const filename = file.replace(".md", "");
-
-      // Split by ## headers for section-level indexing
-      const sections = content.split(/^## /m);
-
-      // Preamble (before any ##)
-      if (sections[0].trim()) {
-        items.push({
-          id: `${type}-${filename}-preamble`,
-          type,
-          content: sections[0].trim(),
-          source: `${subdir}/${file}`,
-          section: "preamble",
-        });
-      }
-
-      // Each section
-      for (let i = 1; i < sections.length; i++) {
-        const section = sections[i];
-        const firstLine = section.split("\n")[0];
-        const sectionTitle = firstLine.trim();
-        const sectionContent = section.slice(firstLine.length).trim();
-
-        if (sectionContent) {
-          items.push({
-            id: `${type}-${filename}-${i}`,
-            type,
-            content: `## ${sectionTitle}\n\n${sectionContent}`,
-            source: `${subdir}/${file}`,
-            section: sectionTitle,
-          });
-        }
-      }
+      items.push(...parseEntityFile(content, category, file));
+    } catch {
+      // Skip unreadable files
+    }
+  }
+
+  return items;
+}
+
+// Directories of markdown files indexed alongside entities, by the
+// source prefix and item type they're indexed under
+const MARKDOWN_DIRS = [
+  { name: "topics", type: "topic", getDir: getTopicsDir },
+  { name: "state", type: "state", getDir: getStateDir },
+] as const;
+
+/**
+ * Parse a topic or state file into section-level items
+ * Ids are `${type}-${filename}-...` and the source is e.g. "topics/x.md".
+ */
+function parseMarkdownFile(content: string, dir: (typeof MARKDOWN_DIRS)[number], file: string): MemoryItem[] {
+  return parseMarkdownSections(content, dir.type, `${dir.type}-${file.replace(".md", "")}`, `${dir.name}/${file}`);
+}
+
+/**
+ * Parse all topic or state files for indexing
+ */
+function parseMarkdownDirForIndexing(dir: (typeof MARKDOWN_DIRS)[number]): MemoryItem[] {
+  const items: MemoryItem[] = [];
+  const path = dir.getDir();
+
+  if (!existsSync(path)) return items;
+
+  const files = readdirSync(path).filter((f) => f.endsWith(".md"));
+
+  for (const file of files) {
+    try {
+      const content = readFileSync(join(path, file), "utf-8");
+      items.push(...parseMarkdownFile(content, dir, file));
     } catch {
       // Skip unreadable files
     }
@@ -265,51 +968,345 @@ function parseEntitiesForIndexing(subdir: "people" | "projects", type: MemoryIte
 
 /**
  * Rebuild the entire index from scratch
+ * Concurrent calls share the rebuild already in progress.
  */
-export async function rebuildIndex(): Promise<{ itemCount: number }> {
-  console.log("[Indexer] Starting full index rebuild...");
-  const startTime = Date.now();
+export function rebuildIndex(): Promise<{ itemCount: number }> {
+  if (!rebuildInProgress) {
+    rebuildInProgress = runRebuild().finally(() => {
+      rebuildInProgress = null;
+    });
+  }
+  return rebuildInProgress;
+}
+
+/**
+ * Parse every memory file into index items
+ */
+function parseAllItems(): MemoryItem[] {
+  return [
+    ...parseJournalForIndexing(),
+    // Every entity category (people, projects, documents, ...)
+    ...listEntityCategories().flatMap((category) => parseEntitiesForIndexing(category)),
+    ...MARKDOWN_DIRS.flatMap((dir) => parseMarkdownDirForIndexing(dir)),
+  ];
+}
+
+/**
+ * Delete items whose source file, section or journal line no longer exists
+ * The files are parsed under the lock, so items another process added
+ * since the caller last parsed them aren't mistaken for orphans.
+ */
+function removeOrphanedItems(idx: VectorStore): string[] {
+  return withLock(idx.path, () => {
+    const currentIds = new Set(parseAllItems().map((item) => item.id));
+    const orphaned = idx.listIds().filter((id) => !currentIds.has(id));
+    idx.delete(orphaned);
+    return orphaned;
+  });
+}
+
+/**
+ * Compare the index with the files on disk
+ * Returns the report along with the parsed items that need (re-)indexing.
+ */
+function diffIndex(idx: VectorStore): { report: IndexReport; toIndex: MemoryItem[] } {
+  const report = createIndexReport();
+  const toIndex: MemoryItem[] = [];
+  const stored = new Map(idx.list().map((item) => [item.id, item.metadata]));
+  const seen = new Set<string>();
+
+  for (const item of parseAllItems()) {
+    const issue = { id: item.id, source: item.source, section: item.section };
 
-  const allItems: MemoryItem[] = [];
+    // Only identical journal lines share an id, so the index holds one copy
+    if (seen.has(item.id)) {
+      report.duplicates.push(issue);
+      continue;
+    }
+    seen.add(item.id);
+
+    const metadata = stored.get(item.id);
+    if (!metadata) {
+      report.missing.push(issue);
+      toIndex.push(item);
+      continue;
+    }
+
+    const expected = itemMetadata(item);
+    if (Object.keys({ ...expected, ...metadata }).some((key) => expected[key] !== metadata[key])) {
+      report.outdated.push(issue);
+      toIndex.push(item);
+    }
+  }
+
+  for (const [id, metadata] of stored) {
+    if (!seen.has(id)) {
+      report.orphaned.push({ id, source: String(metadata.source), section: metadata.section as string | undefined });
+    }
+  }
+
+  if (report.duplicates.length > 0) {
+    report.notes.push("Duplicate ids come from repeated journal lines. The index keeps one copy; the files are left as they are.");
+  }
 
-  // 1. Index journal entries
-  console.log("[Indexer] Parsing journal...");
-  allItems.push(...parseJournalForIndexing());
+  return { report, toIndex };
+}
 
-  // 2. Index people
-  console.log("[Indexer] Parsing people...");
-  allItems.push(...parseEntitiesForIndexing("people", "person"));
+/**
+ * Check the index against the journal, entity, topic and state files
+ */
+export async function verifyIndex(): Promise<IndexReport> {
+  return diffIndex(await getIndex()).report;
+}
 
-  // 3. Index projects
-  console.log("[Indexer] Parsing projects...");
-  allItems.push(...parseEntitiesForIndexing("projects", "project"));
+/**
+ * Fix the differences verifyIndex finds, without a full rebuild
+ * Only missing and outdated items are embedded. Returns what was found.
+ */
+export async function repairIndex(): Promise<IndexReport> {
+  const idx = await getIndex();
+  const { report, toIndex } = diffIndex(idx);
+
+  await indexItems(toIndex);
+  removeOrphanedItems(idx);
+
+  logger.log(
+    `[Indexer] Repaired index: ${toIndex.length} items indexed, ${report.orphaned.length} orphaned items removed`
+  );
+  return report;
+}
+
+async function runRebuild(): Promise<{ itemCount: number }> {
+  logger.log("[Indexer] Starting full index rebuild...");
+  const startTime = Date.now();
+
+  logger.log("[Indexer] Parsing journal, entities, topics and state files...");
+  const allItems = parseAllItems();
 
   // Index all items
-  console.log(`[Indexer] Indexing ${allItems.length} items...`);
+  logger.log(`[Indexer] Indexing ${allItems.length} items...`);
   await indexItems(allItems);
 
+  // Drop anything whose source file or section no longer exists
+  const orphaned = removeOrphanedItems(await getIndex());
+  if (orphaned.length > 0) {
+    logger.log(`[Indexer] Removed ${orphaned.length} orphaned items`);
+  }
+
+  const pruned = pruneEmbeddingCache(
+    EMBEDDING_CACHE,
+    getEmbeddingProvider().id,
+    allItems.map((item) => item.content)
+  );
+  if (pruned > 0) {
+    logger.log(`[Indexer] Pruned ${pruned} unused cached embeddings`);
+  }
+
   const duration = Date.now() - startTime;
-  console.log(`[Indexer] Index rebuild complete in ${duration}ms`);
+  logger.log(`[Indexer] Index rebuild complete in ${duration}ms`);
 
   return { itemCount: allItems.length };
 }
 
 /**
  * Index a single journal entry (for incremental updates)
+ * Returns recent entries that look like the same observation, so the
+ * caller can warn about them.
  */
-export async function indexJournalEntry(entry: {
-  timestamp: string;
-  topic: string;
-  content: string;
-}): Promise<void> {
-  const item: MemoryItem = {
-    id: `journal-${entry.timestamp}`,
-    type: "journal",
-    content: `[${entry.topic}] ${entry.content}`,
-    source: "journal",
-    timestamp: entry.timestamp,
+export async function indexJournalEntry(entry: JournalEntryInput): Promise<JournalDuplicate[]> {
+  const items = journalEntryToItems(entry);
+  await indexItems(items);
+  return findRecentDuplicates(items[0]);
+}
+
+/**
+ * Journal entries more similar to the given one than DUPLICATE_THRESHOLD,
+ * from the last DUPLICATE_WINDOW_DAYS days. Long entries are compared by
+ * their first chunk.
+ */
+async function findRecentDuplicates(item: MemoryItem): Promise<JournalDuplicate[]> {
+  const idx = await getIndex();
+  const vector = idx.get(item.id)?.vector;
+  if (!vector) return [];
+
+  const since = new Date(Date.now() - DUPLICATE_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const matches = idx.query(
+    vector,
+    MAX_DUPLICATES * 2,
+    (meta) => meta.type === "journal" && String(meta.timestamp ?? "") >= since
+  );
+
+  const seen = new Set([item.id]);
+  const duplicates: JournalDuplicate[] = [];
+  for (const { id, metadata: meta, score } of matches) {
+    const entryId = (meta.parentId as string | undefined) ?? id;
+    if (score < DUPLICATE_THRESHOLD || seen.has(entryId)) continue;
+    seen.add(entryId);
+    duplicates.push({ ...toJournalDuplicate(entryId, meta), similarity: score });
+  }
+  return duplicates.slice(0, MAX_DUPLICATES);
+}
+
+function toJournalDuplicate(id: string, meta: ItemMetadata): Omit<JournalDuplicate, "similarity"> {
+  return {
+    id,
+    timestamp: String(meta.timestamp),
+    topic: String(meta.topic ?? ""),
+    content: String(meta.content),
   };
-  await indexItem(item);
+}
+
+/**
+ * Group near-duplicate journal entries for consolidation
+ * Entries are linked when their similarity is at least the threshold, and
+ * each group of linked entries is a cluster. Every pair of entries in the
+ * period is compared, so keep the period to a few months. Vectors are read
+ * and normalised once up front, so each comparison is a dot product.
+ */
+export async function findDuplicateClusters(
+  options: {
+    /** Only entries from this date on (default: last 3 months) */
+    since?: string;
+    /** Minimum similarity, 0-1 (default 0.9) */
+    threshold?: number;
+  } = {}
+): Promise<DuplicateCluster[]> {
+  const { threshold = DUPLICATE_THRESHOLD } = options;
+  const since = parseDateExpression(options.since ?? "3m");
+  const idx = await getIndex();
+
+  // One vector per entry: the first chunk shares its id
+  const entries = idx.listVectors(
+    (meta, id) =>
+      meta.type === "journal" && ((meta.parentId as string | undefined) ?? id) === id && String(meta.timestamp) >= since
+  );
+  const unitVectors = entries.map(({ vector }) => {
+    let norm = 0;
+    for (const x of vector) norm += x * x;
+    norm = Math.sqrt(norm) || 1;
+    return vector.map((x) => x / norm);
+  });
+
+  // Union-find over every pair above the threshold
+  const parent = entries.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const similarities = new Map<number, number[]>();
+
+  for (let i = 0; i < entries.length; i++) {
+    const a = unitVectors[i];
+    for (let j = i + 1; j < entries.length; j++) {
+      const b = unitVectors[j];
+      let similarity = 0;
+      for (let k = 0; k < a.length; k++) similarity += a[k] * b[k];
+      if (similarity < threshold) continue;
+      parent[find(j)] = find(i);
+      similarities.set(i, [...(similarities.get(i) ?? []), similarity]);
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  entries.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), i]);
+  });
+
+  const latest = (cluster: DuplicateCluster) => cluster.entries[cluster.entries.length - 1].timestamp;
+
+  // Biggest clusters first, then the most recently added to
+  return [...groups.values()]
+    .filter((members) => members.length > 1)
+    .map((members): DuplicateCluster => {
+      const pairScores = members.flatMap((i) => similarities.get(i) ?? []);
+      return {
+        entries: members
+          .map((i) => toJournalDuplicate(entries[i].id, entries[i].metadata))
+          .sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+        minSimilarity: Math.min(...pairScores),
+      };
+    })
+    .sort((a, b) => b.entries.length - a.entries.length || latest(b).localeCompare(latest(a)));
+}
+
+/**
+ * Cluster recent journal entries with entity and topic sections by meaning
+ * Each cluster is labelled with its most frequent journal topics, the
+ * files whose sections fall in it and the entries closest to its centre,
+ * so distillation can consolidate a cluster into the right file. Clusters
+ * with no journal entries from the period are left out.
+ */
+export async function clusterMemory(
+  options: {
+    /** Only journal entries from this date on (default: last 2 weeks) */
+    since?: string;
+    /** Only journal entries up to this date (inclusive) */
+    until?: string;
+    /** Number of clusters (default: grows with the number of items, up to 20) */
+    clusters?: number;
+    /** Representative entries per cluster (default: 3) */
+    representatives?: number;
+  } = {}
+): Promise<TopicCluster[]> {
+  const { representatives = 3 } = options;
+  const since = parseDateExpression(options.since ?? "2w");
+  const until = options.until ? parseDateExpression(options.until, { end: true, after: since }) : null;
+  const idx = await getIndex();
+
+  // One vector per entry or section: the first chunk shares its id
+  const items = idx
+    .list()
+    .filter(({ id, metadata: meta }) => {
+      if (((meta.parentId as string | undefined) ?? id) !== id || meta.type === "state") return false;
+      if (meta.type !== "journal") return true;
+      const timestamp = String(meta.timestamp);
+      return timestamp >= since && (until === null || timestamp <= until);
+    })
+    .flatMap((item) => idx.get(item.id) ?? []);
+  if (!items.some((item) => item.metadata.type === "journal")) return [];
+
+  const k = options.clusters ?? Math.min(MAX_TOPIC_CLUSTERS, Math.max(1, Math.round(Math.sqrt(items.length / 2))));
+  const { assignments, centroids } = kMeans(items.map((item) => item.vector), k);
+
+  const clusters: TopicCluster[] = [];
+  centroids.forEach((centroid, c) => {
+    const members = items.filter((_, i) => assignments[i] === c);
+    const entries = members.filter((item) => item.metadata.type === "journal");
+    if (entries.length === 0) return;
+
+    const topicCounts = new Map<string, number>();
+    for (const { metadata: meta } of entries) {
+      const topic = String(meta.topic ?? "");
+      if (topic) topicCounts.set(topic, (topicCounts.get(topic) ?? 0) + 1);
+    }
+    const timestamps = entries.map((item) => String(item.metadata.timestamp)).sort();
+
+    clusters.push({
+      topics: [...topicCounts]
+        .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+        .map(([topic, count]) => ({ topic, count })),
+      files: [
+        ...new Set(members.filter((item) => item.metadata.type !== "journal").map((item) => String(item.metadata.source))),
+      ],
+      entryCount: entries.length,
+      representatives: entries
+        .map((item) => ({ item, similarity: cosineSimilarity(item.vector, centroid) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, representatives)
+        .map(({ item }) => toResult(item.id, item.metadata)),
+      from: timestamps[0],
+      to: timestamps[timestamps.length - 1],
+    });
+  });
+
+  return clusters.sort((a, b) => b.entryCount - a.entryCount || b.to.localeCompare(a.to));
+}
+
+/**
+ * Absolute path of the file a search result came from
+ */
+export function resolveSourcePath(result: Pick<SearchResult, "type" | "source">): string {
+  if (result.type === "journal") return join(getJournalDir(), result.source);
+  const dir = MARKDOWN_DIRS.find((d) => d.type === result.type);
+  return dir ? join(dir.getDir(), basename(result.source)) : join(getEntitiesDir(), result.source);
 }
 
 /**
@@ -317,69 +1314,107 @@ export async function indexJournalEntry(entry: {
  */
 export async function getIndexStats(): Promise<{ itemCount: number }> {
   const idx = await getIndex();
-  const items = await idx.listItems();
-  return { itemCount: items.length };
+  return { itemCount: idx.count() };
+}
+
+/**
+ * Index any memory file: an entity, topic or state file
+ * Called by daemon when files change.
+ */
+export async function indexMemoryFile(filePath: string): Promise<void> {
+  if (!relative(getEntitiesDir(), filePath).startsWith("..")) {
+    return indexEntityFile(filePath);
+  }
+
+  for (const dir of MARKDOWN_DIRS) {
+    const parts = relative(dir.getDir(), filePath).split(sep);
+    if (parts.length === 1 && parts[0] !== "..") {
+      const [file] = parts;
+      return indexSourceFile(filePath, `${dir.name}/${file}`, dir.type, (content) =>
+        parseMarkdownFile(content, dir, file)
+      );
+    }
+  }
+
+  logger.error(`[Indexer] Not a memory file: ${filePath}`);
+}
+
+/**
+ * Re-index one day's journal file after entries in it were edited
+ * Entries that are no longer in the file are removed from the index.
+ */
+export async function indexJournalFile(filePath: string): Promise<void> {
+  const file = basename(filePath);
+  await indexSourceFile(filePath, file, "journal", (content) => parseJournalFile(content, file));
+}
+
+/**
+ * Journal file an indexed entry is in, e.g. "2025-06-01.jsonl"
+ * Returns null if no journal entry with the id is indexed.
+ */
+export async function getJournalEntrySource(id: string): Promise<string | null> {
+  const idx = await getIndex();
+  const meta = idx.get(id)?.metadata;
+  return meta?.type === "journal" && typeof meta.source === "string" ? meta.source : null;
 }
 
 /**
- * Index a single entity file (person or project)
- * Called by daemon when files change
+ * Scrub a journal entry's old text from the index after it was deleted or
+ * redacted
+ * Re-indexing has already replaced or removed its items. This drops the
+ * vectors cached for its old text and checkpoints the index, so no copy
+ * is left in the embedding cache or the write-ahead log.
+ */
+export async function purgeJournalEntry(entry: JournalEntryInput, source: string): Promise<void> {
+  const idx = await getIndex();
+  const texts = journalEntryToItems(entry, source).map((item) => item.content);
+  forgetEmbeddings(EMBEDDING_CACHE, getEmbeddingProvider().id, texts);
+  withLock(idx.path, () => idx.checkpoint());
+}
+
+/**
+ * Index a single entity file (any category)
+ * Sections that no longer exist are removed, and if the file itself is
+ * gone all of its items are removed.
  */
 export async function indexEntityFile(filePath: string): Promise<void> {
-  const filename = basename(filePath, ".md");
-  
-  // Determine type from path
-  let type: MemoryItemType;
-  if (filePath.includes("/people/")) {
-    type = "person";
-  } else if (filePath.includes("/projects/")) {
-    type = "project";
-  } else {
-    console.error(`[Indexer] Unknown entity type for: ${filePath}`);
+  // Category is the directory directly under entities/
+  const parts = relative(getEntitiesDir(), filePath).split(sep);
+  if (parts.length !== 2 || parts[0] === "..") {
+    logger.error(`[Indexer] Not an entity file: ${filePath}`);
     return;
   }
+  const [category, file] = parts;
 
+  await indexSourceFile(filePath, `${category}/${file}`, getEntityType(category), (content) =>
+    parseEntityFile(content, category, file)
+  );
+}
+
+/**
+ * Re-index the items from one file, removing sections that no longer exist
+ * or every item if the file has been deleted
+ */
+async function indexSourceFile(
+  filePath: string,
+  source: string,
+  type: MemoryItemType,
+  parse: (content: string) => MemoryItem[]
+): Promise<void> {
   try {
-    const content = readFileSync(filePath, "utf-8");
-    const items: MemoryItem[] = [];
-    const subdir = type === "person" ? "people" : "projects";
-
-    // Split by ## headers for section-level indexing
-    const sections = content.split(/^## /m);
-
-    // Preamble (before any ##)
-    if (sections[0].trim()) {
-      items.push({
-        id: `${type}-${filename}-preamble`,
-        type,
-        content: sections[0].trim(),
-        source: `${subdir}/${basename(filePath)}`,
-        section: "preamble",
-      });
+    if (!existsSync(filePath)) {
+      const removed = await removeStaleItems(source, type);
+      logger.log(`[Indexer] Removed ${removed} sections from deleted ${basename(filePath)}`);
+      return;
     }
 
-    // Each section
-    for (let i = 1; i < sections.length; i++) {
-      const section = sections[i];
-      const firstLine = section.split("\n")[0];
-      const sectionTitle = firstLine.trim();
-      const sectionContent = section.slice(firstLine.length).trim();
-
-      if (sectionContent) {
-        items.push({
-          id: `${type}-${filename}-${i}`,
-          type,
-          content: `## ${sectionTitle}\n\n${sectionContent}`,
-          source: `${subdir}/${basename(filePath)}`,
-          section: sectionTitle,
-        });
-      }
-    }
+    const items = parse(readFileSync(filePath, "utf-8"));
 
     await indexItems(items);
-    console.log(`[Indexer] Indexed ${items.length} sections from ${basename(filePath)}`);
+    const removed = await removeStaleItems(source, type, items.map((item) => item.id));
+    logger.log(`[Indexer] Indexed ${items.length} sections from ${basename(filePath)}${removed ? ` (removed ${removed} stale)` : ""}`);
   } catch (err) {
-    console.error(`[Indexer] Failed to index ${filePath}: ${String(err)}`);
+    logger.error(`[Indexer] Failed to index ${filePath}: ${String(err)}`);
   }
 }
 
@@ -0,0 +1,224 @@
+/**
+ * Journal edits
+ *
+ * The journal is append-only in normal use, but a wrong entry needs
+ * correcting and a sensitive one removing. Entries are addressed by their
+ * index id (shown in search results and recent journal), which stays the
+ * same when an entry is edited.
+ *
+ * Each edit rewrites the day's JSONL file atomically under its lock, then
+ * re-indexes the file. Every edit also appends a tombstone to
+ * tombstones/journal.jsonl recording what was done to which entry and
+ * when. Tombstones never hold the old content.
+ *
+ * Deleting or redacting an entry also scrubs its old text from the index:
+ * its cached vectors are dropped, and the index databases overwrite
+ * deleted rows and checkpoint their write-ahead logs. Copies outside
+ * macrodata, such as backups, synced folders or an exported vault that
+ * hasn't been re-exported yet, aren't touched.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { basename, join } from "path";
+import { getJournalDir, getTombstonesDir } from "./config.js";
+import { withLock } from "./lock.js";
+import {
+  getJournalEntryId,
+  getJournalEntrySource,
+  indexJournalFile,
+  purgeJournalEntry,
+  type JournalEntryMetadata,
+} from "./indexer.js";
+
+export interface JournalEntry {
+  id?: string;
+  timestamp: string;
+  topic: string;
+  content: string;
+  metadata?: JournalEntryMetadata;
+}
+
+export type JournalEdit = "update" | "delete" | "redact";
+
+export interface JournalTombstone {
+  id: string;
+  action: JournalEdit;
+  /** When the edit was made */
+  at: string;
+  /** Journal file the entry is in, e.g. "2025-06-01.jsonl" */
+  file: string;
+  /** Timestamp and topic of the entry before the edit */
+  timestamp: string;
+  topic: string;
+  reason?: string;
+}
+
+export const REDACTED = "[redacted]";
+
+function getTombstonesPath(): string {
+  return join(getTombstonesDir(), "journal.jsonl");
+}
+
+function hasEntry(path: string, id: string): boolean {
+  return readEntries(path).some(({ entry }) => entry && getJournalEntryId(entry) === id);
+}
+
+/**
+ * Find the journal file holding an entry
+ * The index records each entry's file. An entry that isn't indexed (say,
+ * indexing failed after it was logged) is looked for in every file, each
+ * read under its lock, newest first as recent entries are the ones most
+ * often corrected.
+ */
+async function findEntryFile(id: string): Promise<string | null> {
+  const journalDir = getJournalDir();
+  const source = await getJournalEntrySource(id);
+  if (source) return join(journalDir, source);
+  if (!existsSync(journalDir)) return null;
+
+  const files = readdirSync(journalDir)
+    .filter((f) => f.endsWith(".jsonl"))
+    .sort()
+    .reverse();
+
+  for (const file of files) {
+    const path = join(journalDir, file);
+    if (withLock(path, () => hasEntry(path, id))) return path;
+  }
+  return null;
+}
+
+/**
+ * Read a journal file as lines, keeping malformed ones so a rewrite
+ * leaves them as they were
+ */
+function readEntries(path: string): Array<{ line: string; entry: JournalEntry | null }> {
+  return readFileSync(path, "utf-8")
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      try {
+        return { line, entry: JSON.parse(line) as JournalEntry };
+      } catch {
+        return { line, entry: null };
+      }
+    });
+}
+
+/**
+ * Apply an edit to one entry: rewrite its file and record a tombstone
+ * `change` returns the new entry, or null to remove it. Returns the entry
+ * before and after the edit, or null if no entry has the id.
+ */
+async function editEntry(
+  id: string,
+  action: JournalEdit,
+  reason: string | undefined,
+  change: (entry: JournalEntry) => JournalEntry | null
+): Promise<{ before: JournalEntry; after: JournalEntry | null } | null> {
+  const path = await findEntryFile(id);
+  if (!path || !existsSync(path)) return null;
+
+  const edited = withLock(path, () => {
+    // Re-read under the lock, as the file may have changed since
+    const lines = readEntries(path);
+    const index = lines.findIndex(({ entry }) => entry && getJournalEntryId(entry) === id);
+    if (index === -1) return null;
+
+    const before = lines[index].entry!;
+    const after = change({ id, ...before });
+    const rewritten = lines.map(({ line }, i) => (i === index ? (after ? JSON.stringify(after) : null) : line));
+
+    // Write to a temp file and rename so readers never see a partial file
+    const tmpPath = `${path}.tmp`;
+    writeFileSync(tmpPath, rewritten.filter((line) => line !== null).map((line) => line + "\n").join(""));
+    renameSync(tmpPath, path);
+
+    const tombstone: JournalTombstone = {
+      id,
+      action,
+      at: new Date().toISOString(),
+      file: basename(path),
+      timestamp: before.timestamp,
+      topic: before.topic,
+      ...(reason && { reason }),
+    };
+    mkdirSync(getTombstonesDir(), { recursive: true });
+    const tombstonesPath = getTombstonesPath();
+    withLock(tombstonesPath, () => appendFileSync(tombstonesPath, JSON.stringify(tombstone) + "\n"));
+
+    return { before, after };
+  });
+
+  if (edited) {
+    await indexJournalFile(path);
+    if (action !== "update") await purgeJournalEntry(edited.before, basename(path));
+  }
+  return edited;
+}
+
+/**
+ * Change an entry's topic or content, keeping its id and timestamp
+ * Returns the updated entry, or null if no entry has the id.
+ */
+export async function updateJournalEntry(
+  id: string,
+  changes: { topic?: string; content?: string },
+  reason?: string
+): Promise<JournalEntry | null> {
+  const edited = await editEntry(id, "update", reason, (entry) => ({
+    ...entry,
+    ...(changes.topic && { topic: changes.topic }),
+    ...(changes.content && { content: changes.content }),
+  }));
+  return edited?.after ?? null;
+}
+
+/**
+ * Remove an entry from the journal and the index
+ * Returns false if no entry has the id.
+ */
+export async function deleteJournalEntry(id: string, reason?: string): Promise<boolean> {
+  return (await editEntry(id, "delete", reason, () => null)) !== null;
+}
+
+/**
+ * Replace sensitive text in an entry with [redacted]
+ * Without `text` the whole content is redacted. Returns the redacted
+ * entry, or null if no entry has the id. Throws if the text isn't in the
+ * entry, leaving it unchanged.
+ */
+export async function redactJournalEntry(
+  id: string,
+  options: { text?: string; reason?: string } = {}
+): Promise<JournalEntry | null> {
+  const { text, reason } = options;
+
+  const edited = await editEntry(id, "redact", reason, (entry) => {
+    if (!text) return { ...entry, content: REDACTED };
+    if (!entry.content.includes(text)) {
+      throw new Error(`Text to redact not found in journal entry ${id}`);
+    }
+    return { ...entry, content: entry.content.split(text).join(REDACTED) };
+  });
+  return edited?.after ?? null;
+}
+
+/**
+ * Read the tombstones of past edits, oldest first
+ */
+export function loadTombstones(): JournalTombstone[] {
+  const path = getTombstonesPath();
+  if (!existsSync(path)) return [];
+
+  return readFileSync(path, "utf-8")
+    .split("\n")
+    .filter(Boolean)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as JournalTombstone];
+      } catch {
+        return [];
+      }
+    });
+}
@@ -0,0 +1,215 @@
+/**
+ * Journal export to Markdown daily notes
+ *
+ * Renders each day's journal file as a note for Obsidian, Logseq or any
+ * other Markdown vault: front matter with the date and tags, a heading per
+ * topic, and wikilinks to the entity files entries are about.
+ *
+ * The JSONL journal stays canonical. Notes are rendered from it on every
+ * export, so edits made to them in the vault are overwritten, and edits to
+ * the journal (including redactions) reach the notes on the next export.
+ * A note is only written when its content changes, so synced vaults don't
+ * see churn.
+ *
+ * Notes the export writes are marked with "generator: macrodata" in their
+ * front matter, and only marked notes are ever overwritten or removed. The
+ * export directory can be an existing daily notes folder: a note the user
+ * wrote for a day is left alone, and that day isn't exported.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from "fs";
+import { basename, join } from "path";
+import { getExportConfig, getJournalDir, resolveExportDir } from "./config.js";
+import { parseDateExpression } from "./dates.js";
+import type { JournalEntryMetadata } from "./indexer.js";
+
+interface JournalEntry {
+  timestamp: string;
+  topic: string;
+  content: string;
+  metadata?: JournalEntryMetadata;
+}
+
+export interface JournalExportResult {
+  dir: string;
+  /** Days whose notes were written or removed */
+  written: string[];
+  /** Days whose notes were already up to date */
+  unchanged: number;
+  /** Days with a note the export didn't write, left alone */
+  skipped: string[];
+}
+
+/**
+ * What exporting a day did to its note
+ * "skipped" means the note exists but wasn't written by the export.
+ */
+export type NoteExport = "written" | "unchanged" | "skipped";
+
+const DAY_FILE = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+const NOTE_FILE = /^\d{4}-\d{2}-\d{2}\.md$/;
+const GENERATOR = "generator: macrodata";
+
+/**
+ * Tags as they can be written in a vault: no spaces or leading #
+ */
+function toTag(tag: string): string {
+  return tag.trim().replace(/^#+/, "").replace(/\s+/g, "-");
+}
+
+/**
+ * A front matter value, quoted unless it's plain text YAML reads as a string
+ * Tags such as "[wip]", "a:b" or "yes" would otherwise be read as a list, a
+ * mapping or a boolean, or make the front matter invalid.
+ */
+function toYamlValue(value: string): string {
+  if (/^[A-Za-z_][\w\-/]*$/.test(value) && !/^(?:y|n|yes|no|true|false|on|off|null)$/i.test(value)) return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Wikilink to an entity file, e.g. "people/alice.md" becomes [[people/alice]]
+ */
+function toWikilink(entity: string): string {
+  return `[[${entity.replace(/\.md$/, "")}]]`;
+}
+
+/**
+ * Render one day's journal entries as a Markdown note
+ * Topics are in order of their first entry that day, and entries under
+ * each topic in time order.
+ */
+export function renderDailyNote(day: string, entries: JournalEntry[]): string {
+  const sorted = [...entries].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+  const tags = new Map<string, string>();
+  for (const entry of sorted) {
+    for (const tag of entry.metadata?.tags ?? []) {
+      const clean = toTag(tag);
+      if (clean && !tags.has(clean.toLowerCase())) tags.set(clean.toLowerCase(), clean);
+    }
+  }
+
+  const byTopic = new Map<string, JournalEntry[]>();
+  for (const entry of sorted) {
+    byTopic.set(entry.topic, [...(byTopic.get(entry.topic) ?? []), entry]);
+  }
+
+  const frontMatter = ["---", `date: ${day}`, GENERATOR];
+  if (tags.size > 0) {
+    frontMatter.push("tags:", ...[...tags.values()].map((tag) => `  - ${toYamlValue(tag)}`));
+  }
+  frontMatter.push("---");
+
+  const sections = [...byTopic].map(([topic, topicEntries]) => {
+    const blocks = topicEntries.map((entry) => {
+      const time = isNaN(Date.parse(entry.timestamp)) ? "" : `**${new Date(entry.timestamp).toISOString().slice(11, 16)}** `;
+      const links = entry.metadata?.entities?.map(toWikilink) ?? [];
+      return `${time}${entry.content.trim()}` + (links.length > 0 ? `\n\nRelated: ${links.join(", ")}` : "");
+    });
+    return `## ${topic}\n\n${blocks.join("\n\n")}`;
+  });
+
+  return `${frontMatter.join("\n")}\n\n# ${day}\n\n${sections.join("\n\n")}\n`;
+}
+
+function readJournalEntries(path: string): JournalEntry[] {
+  return readFileSync(path, "utf-8")
+    .split("\n")
+    .filter(Boolean)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as JournalEntry];
+      } catch {
+        return [];
+      }
+    });
+}
+
+/**
+ * Whether a note was written by the export, going by its front matter
+ */
+function isExportedNote(content: string): boolean {
+  const lines = content.split("\n");
+  if (lines[0] !== "---") return false;
+  const end = lines.indexOf("---", 1);
+  return end !== -1 && lines.slice(1, end).includes(GENERATOR);
+}
+
+/**
+ * Export one daily journal file to its note in `dir`
+ * A day with no entries left has its note removed. A note the export
+ * didn't write is never overwritten or removed. A file that isn't a daily
+ * journal file is "unchanged".
+ */
+export function exportJournalFile(path: string, dir: string): NoteExport {
+  const day = basename(path).match(DAY_FILE)?.[1];
+  if (!day) return "unchanged";
+
+  const notePath = join(dir, `${day}.md`);
+  const existing = existsSync(notePath) ? readFileSync(notePath, "utf-8") : null;
+  if (existing !== null && !isExportedNote(existing)) return "skipped";
+
+  const entries = existsSync(path) ? readJournalEntries(path) : [];
+  if (entries.length === 0) {
+    if (existing === null) return "unchanged";
+    unlinkSync(notePath);
+    return "written";
+  }
+
+  const note = renderDailyNote(day, entries);
+  if (existing === note) return "unchanged";
+
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(notePath, note);
+  return "written";
+}
+
+/**
+ * Export the journal as one Markdown note per day
+ * Defaults to the directory in the "export" config, and a directory given
+ * is resolved the same way (~ and relative paths). `since` takes the same
+ * expressions as search filters. Exported notes for days whose journal
+ * file was deleted are removed. Throws if no directory is given or
+ * configured.
+ */
+export function exportJournal(options: { dir?: string; since?: string } = {}): JournalExportResult {
+  const dir = options.dir ? resolveExportDir(options.dir) : getExportConfig()?.dir;
+  if (!dir) {
+    throw new Error('No export directory. Pass one, or set "export.dir" in config.json');
+  }
+  const sinceDay = options.since ? parseDateExpression(options.since).slice(0, 10) : null;
+
+  const result: JournalExportResult = { dir, written: [], unchanged: 0, skipped: [] };
+  const journalDir = getJournalDir();
+  if (!existsSync(journalDir)) return result;
+
+  const files = readdirSync(journalDir)
+    .filter((f) => DAY_FILE.test(f))
+    .sort();
+
+  for (const file of files) {
+    const day = file.slice(0, 10);
+    if (sinceDay && day < sinceDay) continue;
+
+    const outcome = exportJournalFile(join(journalDir, file), dir);
+    if (outcome === "written") result.written.push(day);
+    else if (outcome === "skipped") result.skipped.push(day);
+    else result.unchanged++;
+  }
+
+  // Remove exported notes for days whose journal file is gone
+  const days = new Set(files.map((f) => f.slice(0, 10)));
+  const notes = existsSync(dir) ? readdirSync(dir).filter((f) => NOTE_FILE.test(f)) : [];
+  for (const note of notes) {
+    const day = note.slice(0, 10);
+    if (days.has(day) || (sinceDay && day < sinceDay)) continue;
+    const notePath = join(dir, note);
+    if (!isExportedNote(readFileSync(notePath, "utf-8"))) continue;
+    unlinkSync(notePath);
+    result.written.push(day);
+  }
+  result.written.sort();
+
+  return result;
+}
@@ -0,0 +1,157 @@
+/**
+ * Journal timelines
+ *
+ * Reads every journal entry between two dates, for reviews that need the
+ * whole of a period ("what happened this week") rather than the latest N
+ * entries or the best semantic matches. Only the daily files inside the
+ * range are read, so a range deep in the past costs the same as a recent
+ * one.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { getJournalDir } from "./config.js";
+import { parseDateExpression } from "./dates.js";
+import { getJournalEntryId, type JournalEntryMetadata } from "./indexer.js";
+
+export type JournalGroupBy = "day" | "topic";
+
+export interface TimelineEntry {
+  id: string;
+  timestamp: string;
+  topic: string;
+  /** First line of the content */
+  summary: string;
+  tags?: string[];
+}
+
+export interface TimelineGroup {
+  /** Day ("2025-06-01") or topic */
+  key: string;
+  entries: TimelineEntry[];
+}
+
+export interface JournalTimeline {
+  from: string;
+  to: string;
+  groupBy: JournalGroupBy;
+  /** Entries across all groups */
+  count: number;
+  groups: TimelineGroup[];
+}
+
+interface JournalEntry {
+  id?: string;
+  timestamp: string;
+  topic: string;
+  content: string;
+  metadata?: JournalEntryMetadata;
+}
+
+const MAX_SUMMARY_LENGTH = 200;
+
+function toTimelineEntry(entry: JournalEntry): TimelineEntry {
+  const firstLine = entry.content.split("\n")[0].trim();
+  const summary =
+    firstLine.length > MAX_SUMMARY_LENGTH ? firstLine.slice(0, MAX_SUMMARY_LENGTH - 3) + "..." : firstLine;
+  const tags = entry.metadata?.tags;
+  return {
+    id: getJournalEntryId(entry),
+    timestamp: entry.timestamp,
+    topic: entry.topic,
+    summary,
+    ...(tags?.length && { tags }),
+  };
+}
+
+/**
+ * Get the journal entries in a date range, oldest first, grouped by day
+ * or topic
+ *
+ * `from` and `to` take the same expressions as search filters; whole days
+ * are inclusive, and `to` defaults to now. Days are in date order; topics
+ * are in order of their first entry in the range. Throws on unrecognised
+ * dates or a range that ends before it starts.
+ */
+export function getJournalRange(options: {
+  from: string;
+  to?: string;
+  topic?: string;
+  tag?: string;
+  groupBy?: JournalGroupBy;
+  now?: Date;
+}): JournalTimeline {
+  const { topic, tag, groupBy = "day", now } = options;
+  const from = parseDateExpression(options.from, { now });
+  const to = options.to ? parseDateExpression(options.to, { end: true, now, after: from }) : (now ?? new Date()).toISOString();
+  if (to < from) {
+    throw new Error(`Range ends (${to}) before it starts (${from})`);
+  }
+
+  const timeline: JournalTimeline = { from, to, groupBy, count: 0, groups: [] };
+  const journalDir = getJournalDir();
+  if (!existsSync(journalDir)) return timeline;
+
+  const fromTime = Date.parse(from);
+  const toTime = Date.parse(to);
+  const entries: TimelineEntry[] = [];
+
+  const files = readdirSync(journalDir)
+    .filter((f) => f.endsWith(".jsonl"))
+    .sort();
+
+  for (const file of files) {
+    // Daily files are named by UTC date, so files outside the range can be skipped unread
+    const day = file.slice(0, 10);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(day) && (day < from.slice(0, 10) || day > to.slice(0, 10))) continue;
+
+    for (const line of readFileSync(join(journalDir, file), "utf-8").split("\n").filter(Boolean)) {
+      try {
+        const entry = JSON.parse(line) as JournalEntry;
+        const time = Date.parse(entry.timestamp);
+        if (isNaN(time) || time < fromTime || time > toTime) continue;
+        if (topic && entry.topic !== topic) continue;
+        if (tag && !entry.metadata?.tags?.some((t) => t.toLowerCase() === tag.toLowerCase())) continue;
+        entries.push(toTimelineEntry(entry));
+      } catch {
+        // Skip malformed lines
+      }
+    }
+  }
+
+  entries.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+  const groups = new Map<string, TimelineEntry[]>();
+  for (const entry of entries) {
+    const key = groupBy === "day" ? new Date(entry.timestamp).toISOString().slice(0, 10) : entry.topic;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+
+  timeline.count = entries.length;
+  timeline.groups = [...groups].map(([key, groupEntries]) => ({ key, entries: groupEntries }));
+  return timeline;
+}
+
+/**
+ * Render a timeline as compact text, one line per entry under a heading
+ * per group
+ */
+export function formatJournalTimeline(timeline: JournalTimeline): string {
+  const { from, to, groupBy, count, groups } = timeline;
+  const header = `${count} journal entr${count === 1 ? "y" : "ies"} from ${from.slice(0, 10)} to ${to.slice(0, 10)}`;
+  if (count === 0) return header;
+
+  const sections = groups.map(({ key, entries }) => {
+    const lines = entries.map((e) => {
+      // Within a day the time is enough; within a topic the date matters
+      const iso = new Date(e.timestamp).toISOString();
+      const when = groupBy === "day" ? iso.slice(11, 16) : iso.slice(0, 10);
+      const label = groupBy === "day" ? `[${e.topic}] ` : "";
+      const tags = e.tags ? ` #${e.tags.join(" #")}` : "";
+      return `- ${when} ${label}${e.summary}${tags} (${e.id})`;
+    });
+    return `## ${key} (${entries.length})\n${lines.join("\n")}`;
+  });
+
+  return `${header}\n\n${sections.join("\n\n")}`;
+}
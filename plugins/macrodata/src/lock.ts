@@ -0,0 +1,152 @@
+/**
+ * Cross-process file locks
+ *
+ * The MCP server, daemon, conversation indexer and OpenCode plugin all write
+ * to the same indexes and journal files. Writers take an advisory lock on a
+ * file by creating `<path>.lock` containing their PID. A lock whose process
+ * is no longer running is stale and gets taken over.
+ *
+ * Locks are synchronous and meant for short critical sections, such as a
+ * journal append or a batch of index writes. Don't await inside them.
+ * Nested calls for the same path in one process are allowed.
+ */
+
+import {
+  closeSync,
+  existsSync,
+  linkSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeSync,
+} from "fs";
+import { dirname } from "path";
+import { randomUUID } from "crypto";
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const RETRY_INTERVAL_MS = 20;
+
+// A lock file with no PID yet is only treated as stale after this long,
+// in case its owner is between creating and writing it
+const EMPTY_LOCK_GRACE_MS = 5_000;
+
+// Lock depth per path held by this process
+const heldLocks = new Map<string, number>();
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means it exists but belongs to someone else
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function isStale(lockPath: string): boolean {
+  const pid = parseInt(readFileSync(lockPath, "utf-8").trim(), 10);
+  if (Number.isNaN(pid)) {
+    return Date.now() - statSync(lockPath).mtimeMs >= EMPTY_LOCK_GRACE_MS;
+  }
+  // Our own PID means a leftover from an earlier process, as locks held by
+  // this one are tracked in heldLocks
+  return pid === process.pid || !isProcessRunning(pid);
+}
+
+/**
+ * Remove the lock file if its owner has gone. Returns true if removed, or
+ * if it was released in the meantime.
+ *
+ * The lock is moved aside before it's removed, so that of several
+ * processes taking over the same stale lock only one succeeds, and is
+ * checked again once moved in case a live owner replaced it after the
+ * first check. A live lock moved aside by mistake is put back.
+ */
+function clearStaleLock(lockPath: string): boolean {
+  const asidePath = `${lockPath}.${process.pid}-${randomUUID()}`;
+  try {
+    if (!isStale(lockPath)) return false;
+    renameSync(lockPath, asidePath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return true;
+    throw err;
+  }
+
+  try {
+    if (isStale(asidePath)) return true;
+    try {
+      linkSync(asidePath, lockPath);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    }
+    return false;
+  } finally {
+    unlinkSync(asidePath);
+  }
+}
+
+/**
+ * Remove the lock file if it's still ours
+ */
+function release(lockPath: string): void {
+  try {
+    if (readFileSync(lockPath, "utf-8").trim() === String(process.pid)) {
+      unlinkSync(lockPath);
+    }
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+}
+
+function tryAcquire(lockPath: string): boolean {
+  try {
+    const fd = openSync(lockPath, "wx");
+    writeSync(fd, String(process.pid));
+    closeSync(fd);
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    return false;
+  }
+}
+
+/**
+ * Run fn while holding the lock for a file
+ * Throws if the lock can't be taken within timeoutMs.
+ */
+export function withLock<T>(path: string, fn: () => T, options: { timeoutMs?: number } = {}): T {
+  const lockPath = `${path}.lock`;
+  const depth = heldLocks.get(lockPath) ?? 0;
+
+  if (depth === 0) {
+    const dir = dirname(lockPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    while (!tryAcquire(lockPath)) {
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for lock on ${path}`);
+      }
+      if (!clearStaleLock(lockPath)) {
+        Bun.sleepSync(RETRY_INTERVAL_MS);
+      }
+    }
+  }
+
+  heldLocks.set(lockPath, depth + 1);
+  try {
+    return fn();
+  } finally {
+    if (depth === 0) {
+      heldLocks.delete(lockPath);
+      release(lockPath);
+    } else {
+      heldLocks.set(lockPath, depth);
+    }
+  }
+}
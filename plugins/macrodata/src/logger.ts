@@ -0,0 +1,28 @@
+/**
+ * Log output for shared modules
+ *
+ * Goes to the console by default, which suits the MCP server, the daemon
+ * and the CLI scripts. The OpenCode plugin can't write to the console, as
+ * that corrupts its TUI, so it sets its own logger on load.
+ */
+
+export interface Logger {
+  log(message: string): void;
+  error(message: string): void;
+  warn(message: string): void;
+}
+
+let sink: Logger = console;
+
+/**
+ * Send log output from shared modules somewhere other than the console
+ */
+export function setLogger(next: Logger): void {
+  sink = next;
+}
+
+export const logger: Logger = {
+  log: (message) => sink.log(message),
+  error: (message) => sink.error(message),
+  warn: (message) => sink.warn(message),
+};
@@ -1,95 +1,84 @@
 /**
  * OpenCode Conversation Indexer
  *
- * Indexes past OpenCode sessions for semantic search.
+ * Indexes past OpenCode sessions for semantic search. Lives alongside the
+ * Claude Code indexer so the MCP server and daemon can search and update it
+ * as well as the OpenCode plugin.
  * Structure: ~/.local/share/opencode/storage/
  *   - message/{sessionID}/msg_{id}.json - Message metadata
  *   - part/{messageID}/prt_{id}.json - Message content
  *   - project/{hash}.json - Project metadata
  */
 
-import { existsSync, readFileSync, readdirSync, mkdirSync } from "fs";
+import { existsSync, readFileSync, readdirSync } from "fs";
 import { join, basename } from "path";
 import { homedir } from "os";
-import { LocalIndex } from "vectra";
-import { pipeline, type FeatureExtractionPipeline } from "@xenova/transformers";
-import { getStateRoot } from "./context.js";
+import { embed, embedBatch, getEmbeddingProvider } from "./embeddings.js";
+import { pruneEmbeddingCache } from "./embedding-cache.js";
+import { checkIndexMeta } from "./index-meta.js";
+import { withLock } from "./lock.js";
 import { logger } from "./logger.js";
+import { VectorStore, migrateVectraIndex, type ItemMetadata, type StoreItemInput } from "./vector-store.js";
+import { highlightMatch, maximalMarginalRelevance } from "./ranking.js";
+import { getIndexDir, getSearchConfig } from "./config.js";
+import type { ConversationScoreExplanation } from "./conversations.js";
 
 const OPENCODE_STORAGE = join(homedir(), ".local", "share", "opencode", "storage");
-const EMBEDDING_DIMENSIONS = 384;
 
-// Reuse embedding pipeline from search.ts
-let embeddingPipeline: FeatureExtractionPipeline | null = null;
-let pipelineLoading: Promise<FeatureExtractionPipeline> | null = null;
+// Bump when the text embedded for each exchange changes
+const CHUNKING_VERSION = 1;
 
-async function getEmbeddingPipeline(): Promise<FeatureExtractionPipeline> {
-  if (embeddingPipeline) return embeddingPipeline;
-  if (pipelineLoading) return pipelineLoading;
+// Persistent cache of exchange vectors, so rebuilds only embed new exchanges
+const EMBEDDING_CACHE = "oc-conversations";
 
-  pipelineLoading = pipeline("feature-extraction", "Xenova/all-MiniLM-L6-v2", {
-    quantized: true,
-  });
-
-  try {
-    embeddingPipeline = await pipelineLoading;
-    return embeddingPipeline;
-  } finally {
-    pipelineLoading = null;
-  }
-}
-
-async function embedBatch(texts: string[]): Promise<number[][]> {
-  if (texts.length === 0) return [];
-
-  const pipe = await getEmbeddingPipeline();
-  const batchSize = 32;
-  const results: number[][] = [];
-
-  for (let i = 0; i < texts.length; i += batchSize) {
-    const batch = texts.slice(i, i + batchSize);
-    const outputs = await pipe(batch, { pooling: "mean", normalize: true });
-
-    for (let j = 0; j < batch.length; j++) {
-      const start = j * EMBEDDING_DIMENSIONS;
-      const end = start + EMBEDDING_DIMENSIONS;
-      results.push(Array.from((outputs.data as Float32Array).slice(start, end)));
-    }
-  }
-
-  return results;
-}
+// Conversation index singleton, re-opened if the path or embedding model changes
+let convIndex: VectorStore | null = null;
+let convIndexModel: string | null = null;
 
-async function embed(text: string): Promise<number[]> {
-  const pipe = await getEmbeddingPipeline();
-  const output = await pipe(text, { pooling: "mean", normalize: true });
-  return Array.from(output.data as Float32Array);
-}
-
-// Conversation index singleton
-let convIndex: LocalIndex | null = null;
+async function getConversationIndex(): Promise<VectorStore> {
+  const indexDir = getIndexDir();
+  const indexPath = join(indexDir, "oc-conversations.sqlite");
+  const currentModel = getEmbeddingProvider().id;
 
-async function getConversationIndex(): Promise<LocalIndex> {
-  if (convIndex) return convIndex;
+  if (convIndex && convIndex.path === indexPath && convIndexModel === currentModel) return convIndex;
+  convIndex?.close();
 
-  const stateRoot = getStateRoot();
-  const indexPath = join(stateRoot, ".index", "oc-conversations");
+  convIndex = new VectorStore(indexPath);
+  convIndexModel = currentModel;
 
-  const indexDir = join(stateRoot, ".index");
-  if (!existsSync(indexDir)) {
-    mkdirSync(indexDir, { recursive: true });
+  const migrated = migrateVectraIndex(convIndex, join(indexDir, "oc-conversations"), (meta) =>
+    `${meta.userPrompt ?? ""}\n${meta.assistantSummary ?? ""}`
+  );
+  if (migrated > 0) {
+    logger.log(`[OpenCode Conversations] Migrated ${migrated} exchanges from the Vectra index`);
   }
 
-  convIndex = new LocalIndex(indexPath);
-
-  if (!(await convIndex.isIndexCreated())) {
-    logger.log("Creating new conversation index...");
-    await convIndex.createIndex();
+  // Clear an index built with another model; the next update re-embeds everything
+  const mismatch = await checkIndexMeta(convIndex, CHUNKING_VERSION);
+  if (mismatch) {
+    logger.log(`[OpenCode Conversations] Index ${mismatch}. Cleared it to be re-indexed`);
   }
 
   return convIndex;
 }
 
+function exchangeToStoreItem(ex: ConversationExchange, vector: number[]): StoreItemInput {
+  return {
+    id: ex.id,
+    vector,
+    metadata: {
+      userPrompt: ex.userPrompt,
+      assistantSummary: ex.assistantSummary,
+      project: ex.project,
+      projectPath: ex.projectPath,
+      timestamp: ex.timestamp,
+      sessionId: ex.sessionId,
+      messageId: ex.messageId,
+    },
+    text: `${ex.userPrompt}\n${ex.assistantSummary}`,
+  };
+}
+
 interface ProjectInfo {
   id: string;
   worktree: string;
@@ -126,6 +115,17 @@ export interface ConversationSearchResult {
   exchange: ConversationExchange;
   score: number;
   adjustedScore: number;
+  explain?: ConversationScoreExplanation;
+}
+
+// Score multiplier for exchanges from the current project
+const PROJECT_BOOST = 1.5;
+
+/**
+ * Directory holding a session's message files
+ */
+export function getSessionPath(sessionId: string): string {
+  return join(OPENCODE_STORAGE, "message", sessionId);
 }
 
 /**
@@ -250,7 +250,7 @@ function* scanExchanges(): Generator<ConversationExchange> {
  * Rebuild conversation index
  */
 export async function rebuildConversationIndex(): Promise<{ exchangeCount: number }> {
-  logger.log("Rebuilding OpenCode conversation index...");
+  logger.log("[OpenCode Conversations] Rebuilding index...");
   const startTime = Date.now();
 
   const exchanges: ConversationExchange[] = [];
@@ -258,7 +258,7 @@ export async function rebuildConversationIndex(): Promise<{ exchangeCount: numbe
     exchanges.push(exchange);
   }
 
-  logger.log(`Found ${exchanges.length} exchanges`);
+  logger.log(`[OpenCode Conversations] Found ${exchanges.length} exchanges`);
 
   if (exchanges.length === 0) {
     return { exchangeCount: 0 };
@@ -266,30 +266,19 @@ export async function rebuildConversationIndex(): Promise<{ exchangeCount: numbe
 
   // Embed user prompts (what we search on)
   const texts = exchanges.map((e) => e.userPrompt);
-  logger.log("Generating embeddings...");
-  const vectors = await embedBatch(texts);
+  logger.log("[OpenCode Conversations] Generating embeddings...");
+  const vectors = await embedBatch(texts, { cache: EMBEDDING_CACHE });
 
   const idx = await getConversationIndex();
 
-  for (let i = 0; i < exchanges.length; i++) {
-    const ex = exchanges[i];
-    await idx.upsertItem({
-      id: ex.id,
-      vector: vectors[i],
-      metadata: {
-        userPrompt: ex.userPrompt,
-        assistantSummary: ex.assistantSummary,
-        project: ex.project,
-        projectPath: ex.projectPath,
-        timestamp: ex.timestamp,
-        sessionId: ex.sessionId,
-        messageId: ex.messageId,
-      },
-    });
-  }
+  withLock(idx.path, () =>
+    idx.upsert(exchanges.map((ex, i) => exchangeToStoreItem(ex, vectors[i])))
+  );
+
+  pruneEmbeddingCache(EMBEDDING_CACHE, getEmbeddingProvider().id, texts);
 
   const duration = Date.now() - startTime;
-  logger.log(`Conversation index rebuilt in ${duration}ms`);
+  logger.log(`[OpenCode Conversations] Conversation index rebuilt in ${duration}ms`);
 
   return { exchangeCount: exchanges.length };
 }
@@ -320,25 +309,38 @@ export async function searchConversations(
     currentProject?: string;
     limit?: number;
     projectOnly?: boolean;
+    explain?: boolean;
+    /** 0-1, push down exchanges like ones ranked above (default from config) */
+    diversity?: number;
+    /** Only exchanges indexed at or after this time (ms since epoch) */
+    indexedSince?: number;
   } = {}
 ): Promise<ConversationSearchResult[]> {
-  const { currentProject, limit = 5, projectOnly = false } = options;
+  const {
+    currentProject,
+    limit = 5,
+    projectOnly = false,
+    explain = false,
+    diversity = getSearchConfig().diversity,
+    indexedSince,
+  } = options;
 
   const idx = await getConversationIndex();
-  const stats = await idx.listItems();
 
-  if (stats.length === 0) {
+  if (idx.count() === 0) {
     return [];
   }
 
   const queryVector = await embed(query);
-  const results = await idx.queryItems(queryVector, limit * 3);
+  const filter = projectOnly && currentProject ? (meta: ItemMetadata) => meta.projectPath === currentProject : undefined;
+  const results = idx.query(queryVector, limit * 3, filter, { indexedSince, withVectors: diversity > 0 });
+  const vectors = new Map(results.map((r) => [r.id, r.vector]));
 
   const searchResults: ConversationSearchResult[] = results.map((r) => {
-    const meta = r.item.metadata as Record<string, string>;
+    const meta = r.metadata as Record<string, string>;
 
     const exchange: ConversationExchange = {
-      id: r.item.id,
+      id: r.id,
       userPrompt: meta.userPrompt,
       assistantSummary: meta.assistantSummary,
       project: meta.project,
@@ -348,26 +350,32 @@ export async function searchConversations(
       messageId: meta.messageId,
     };
 
-    let adjustedScore = r.score;
-    adjustedScore *= getTimeWeight(exchange.timestamp);
-
-    if (currentProject && exchange.projectPath === currentProject) {
-      adjustedScore *= 1.5;
-    }
+    const timeWeight = getTimeWeight(exchange.timestamp);
+    const projectBoost = currentProject && exchange.projectPath === currentProject ? PROJECT_BOOST : 1;
+    const adjustedScore = r.score * timeWeight * projectBoost;
 
     return {
       exchange,
       score: r.score,
       adjustedScore,
+      ...(explain && {
+        explain: {
+          similarity: r.score,
+          timeWeight,
+          projectBoost,
+          highlight: highlightMatch(query, `${exchange.userPrompt}\n${exchange.assistantSummary}`),
+        },
+      }),
     };
   });
 
-  let filtered = searchResults;
-  if (projectOnly && currentProject) {
-    filtered = searchResults.filter((r) => r.exchange.projectPath === currentProject);
-  }
-
-  return filtered.sort((a, b) => b.adjustedScore - a.adjustedScore).slice(0, limit);
+  // Spread results across topics if asked
+  return maximalMarginalRelevance(searchResults.sort((a, b) => b.adjustedScore - a.adjustedScore), {
+    limit,
+    diversity,
+    score: (r) => r.adjustedScore,
+    vector: (r) => vectors.get(r.exchange.id),
+  });
 }
 
 /**
@@ -375,20 +383,18 @@ export async function searchConversations(
  */
 export async function getConversationIndexStats(): Promise<{ exchangeCount: number }> {
   const idx = await getConversationIndex();
-  const items = await idx.listItems();
-  return { exchangeCount: items.length };
+  return { exchangeCount: idx.count() };
 }
 
 /**
  * Incrementally update conversation index (only new exchanges)
  */
 export async function updateConversationIndex(): Promise<{ newCount: number; totalCount: number }> {
-  logger.log("Updating OpenCode conversation index...");
+  logger.log("[OpenCode Conversations] Updating index...");
   const startTime = Date.now();
 
   const idx = await getConversationIndex();
-  const existingItems = await idx.listItems();
-  const existingIds = new Set(existingItems.map(item => item.id));
+  const existingIds = new Set(idx.listIds());
 
   // Collect only new exchanges
   const newExchanges: ConversationExchange[] = [];
@@ -398,7 +404,7 @@ export async function updateConversationIndex(): Promise<{ newCount: number; tot
     }
   }
 
-  logger.log(`Found ${newExchanges.length} new exchanges (${existingIds.size} already indexed)`);
+  logger.log(`[OpenCode Conversations] Found ${newExchanges.length} new exchanges (${existingIds.size} already indexed)`);
 
   if (newExchanges.length === 0) {
     return { newCount: 0, totalCount: existingIds.size };
@@ -406,29 +412,16 @@ export async function updateConversationIndex(): Promise<{ newCount: number; tot
 
   // Embed only new exchanges
   const texts = newExchanges.map((e) => e.userPrompt);
-  logger.log(`Generating embeddings for ${texts.length} new exchanges...`);
-  const vectors = await embedBatch(texts);
-
-  for (let i = 0; i < newExchanges.length; i++) {
-    const ex = newExchanges[i];
-    await idx.upsertItem({
-      id: ex.id,
-      vector: vectors[i],
-      metadata: {
-        userPrompt: ex.userPrompt,
-        assistantSummary: ex.assistantSummary,
-        project: ex.project,
-        projectPath: ex.projectPath,
-        timestamp: ex.timestamp,
-        sessionId: ex.sessionId,
-        messageId: ex.messageId,
-      },
-    });
-  }
+  logger.log(`[OpenCode Conversations] Generating embeddings for ${texts.length} new exchanges...`);
+  const vectors = await embedBatch(texts, { cache: EMBEDDING_CACHE });
+
+  withLock(idx.path, () =>
+    idx.upsert(newExchanges.map((ex, i) => exchangeToStoreItem(ex, vectors[i])))
+  );
 
   const duration = Date.now() - startTime;
   const totalCount = existingIds.size + newExchanges.length;
-  logger.log(`Added ${newExchanges.length} exchanges in ${duration}ms (total: ${totalCount})`);
+  logger.log(`[OpenCode Conversations] Added ${newExchanges.length} exchanges in ${duration}ms (total: ${totalCount})`);
 
   return { newCount: newExchanges.length, totalCount };
 }
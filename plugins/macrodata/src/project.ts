@@ -0,0 +1,80 @@
+/**
+ * Current project detection
+ *
+ * Journal entries are stamped with the project the session is in, so the
+ * journal can be scoped to one project the way conversations are. The
+ * project is the session's directory: CLAUDE_PROJECT_DIR in the MCP
+ * server, or the worktree in OpenCode. The branch is read from the
+ * repository's HEAD file rather than by running git.
+ */
+
+import { existsSync, readFileSync, statSync } from "fs";
+import { basename, dirname, join, resolve } from "path";
+import type { JournalEntryMetadata } from "./indexer.js";
+
+export interface ProjectContext {
+  /** Project directory */
+  path: string;
+  /** Directory name, e.g. "macrodata" */
+  name: string;
+  /** Checked-out branch, or the short commit hash if detached */
+  branch?: string;
+}
+
+/**
+ * Find the git directory for a path, walking up to the repository root
+ * In a linked worktree, .git is a file pointing at the real git directory.
+ */
+function findGitDir(dir: string): string | null {
+  let current = resolve(dir);
+  while (true) {
+    const dotGit = join(current, ".git");
+    if (existsSync(dotGit)) {
+      if (statSync(dotGit).isDirectory()) return dotGit;
+      const match = readFileSync(dotGit, "utf-8").match(/^gitdir:\s*(.+)$/m);
+      return match ? resolve(current, match[1].trim()) : null;
+    }
+    const parent = dirname(current);
+    if (parent === current) return null;
+    current = parent;
+  }
+}
+
+/**
+ * Get the checked-out git branch of a directory, if it's in a repository
+ */
+export function getGitBranch(dir: string): string | undefined {
+  try {
+    const gitDir = findGitDir(dir);
+    if (!gitDir) return undefined;
+
+    const head = readFileSync(join(gitDir, "HEAD"), "utf-8").trim();
+    const ref = head.match(/^ref:\s*refs\/heads\/(.+)$/);
+    if (ref) return ref[1];
+    return /^[0-9a-f]{40}$/.test(head) ? head.slice(0, 7) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Describe the project a session is in
+ * Defaults to CLAUDE_PROJECT_DIR. Returns null if there's no project
+ * directory, e.g. when the MCP server runs outside Claude Code.
+ */
+export function getProjectContext(dir = process.env.CLAUDE_PROJECT_DIR): ProjectContext | null {
+  if (!dir) return null;
+  const path = resolve(dir);
+  const branch = getGitBranch(path);
+  return { path, name: basename(path), ...(branch && { branch }) };
+}
+
+/**
+ * Journal entry fields for the project a session is in
+ * Empty if there's no project directory.
+ */
+export function getProjectMetadata(dir?: string): Pick<JournalEntryMetadata, "project" | "projectPath" | "branch"> {
+  const project = getProjectContext(dir);
+  if (!project) return {};
+  return { project: project.name, projectPath: project.path, ...(project.branch && { branch: project.branch }) };
+}
@@ -0,0 +1,194 @@
+/**
+ * Ranking helpers shared by memory search
+ *
+ * - BM25 keyword scoring, so exact identifiers (ticket numbers, error codes,
+ *   function names) can outrank loosely related prose
+ * - Reciprocal rank fusion for combining keyword and vector rankings
+ * - Maximal marginal relevance, so near-duplicates don't crowd out results
+ * - Picking the sentence that best matches a query, for explaining results
+ */
+
+export type SearchMode = "semantic" | "keyword" | "hybrid";
+
+// BM25 tuning (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// RRF damping constant. 60 is the value from the original paper.
+const RRF_K = 60;
+
+// Longest highlight shown for a result
+const MAX_HIGHLIGHT_LENGTH = 300;
+
+/**
+ * Cosine similarity of two vectors, 0 if either is all zeros
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Split text into lowercase terms
+ * Keeps underscores so identifiers like ERR_CONN_RESET stay intact
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+/**
+ * Score documents against a query using BM25
+ * Returns one score per document, in the same order. Documents that share
+ * no terms with the query score 0.
+ */
+export function bm25Scores(query: string, documents: string[]): number[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || documents.length === 0) {
+    return documents.map(() => 0);
+  }
+
+  const docTerms = documents.map(tokenize);
+  const avgLength = docTerms.reduce((sum, terms) => sum + terms.length, 0) / documents.length || 1;
+
+  // Document frequency for each query term
+  const docFreq = new Map<string, number>();
+  for (const terms of docTerms) {
+    const unique = new Set(terms);
+    for (const term of queryTerms) {
+      if (unique.has(term)) {
+        docFreq.set(term, (docFreq.get(term) ?? 0) + 1);
+      }
+    }
+  }
+
+  return docTerms.map((terms) => {
+    if (terms.length === 0) return 0;
+
+    const termFreq = new Map<string, number>();
+    for (const term of terms) {
+      termFreq.set(term, (termFreq.get(term) ?? 0) + 1);
+    }
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = termFreq.get(term);
+      if (!tf) continue;
+      const df = docFreq.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      score += (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * terms.length) / avgLength));
+    }
+    return score;
+  });
+}
+
+/**
+ * Fuse several rankings (lists of ids, best first) with reciprocal rank fusion
+ * Scores are normalised to 0-1, where 1 means ranked first in every list.
+ */
+export function reciprocalRankFusion(rankings: string[][]): Map<string, number> {
+  const fused = new Map<string, number>();
+  if (rankings.length === 0) return fused;
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) => {
+      fused.set(id, (fused.get(id) ?? 0) + 1 / (RRF_K + rank + 1));
+    });
+  }
+
+  const maxScore = rankings.length / (RRF_K + 1);
+  for (const [id, score] of fused) {
+    fused.set(id, score / maxScore);
+  }
+
+  return fused;
+}
+
+/**
+ * Re-rank results with maximal marginal relevance
+ * Results are picked one at a time, each trading its relevance against its
+ * similarity to the results already picked. Diversity 0 keeps the original
+ * order and 1 ignores relevance after the first pick. Scores are scaled to
+ * 0-1 first so they weigh the same as cosine similarity. Results without a
+ * vector are never penalised.
+ */
+export function maximalMarginalRelevance<T>(
+  candidates: T[],
+  options: {
+    limit: number;
+    diversity: number;
+    score: (candidate: T) => number;
+    vector: (candidate: T) => ArrayLike<number> | null | undefined;
+  }
+): T[] {
+  const { limit, diversity } = options;
+  if (diversity <= 0 || candidates.length <= 1) return candidates.slice(0, limit);
+
+  const maxScore = Math.max(...candidates.map(options.score)) || 1;
+  const remaining = candidates.map((candidate) => ({
+    candidate,
+    relevance: options.score(candidate) / maxScore,
+    vector: options.vector(candidate),
+    // Highest similarity to any picked result so far
+    redundancy: 0,
+  }));
+  const picked: T[] = [];
+
+  while (picked.length < limit && remaining.length > 0) {
+    let best = 0;
+    let bestValue = -Infinity;
+    remaining.forEach((entry, i) => {
+      const value = (1 - diversity) * entry.relevance - diversity * entry.redundancy;
+      if (value > bestValue) {
+        best = i;
+        bestValue = value;
+      }
+    });
+
+    const [chosen] = remaining.splice(best, 1);
+    picked.push(chosen.candidate);
+    if (!chosen.vector) continue;
+    for (const entry of remaining) {
+      if (entry.vector) {
+        entry.redundancy = Math.max(entry.redundancy, cosineSimilarity(chosen.vector, entry.vector));
+      }
+    }
+  }
+
+  return picked;
+}
+
+/**
+ * Find the sentence in some text that best matches a query
+ * Sentences are ranked with BM25 and query terms in the chosen one are
+ * wrapped in ** for display. Purely semantic matches may share no terms
+ * with the query, in which case the first sentence is used.
+ */
+export function highlightMatch(query: string, text: string): string {
+  const sentences = text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+  if (sentences.length === 0) return "";
+
+  const scores = bm25Scores(query, sentences);
+  const best = scores.indexOf(Math.max(...scores));
+  let sentence = sentences[best];
+  if (sentence.length > MAX_HIGHLIGHT_LENGTH) {
+    sentence = sentence.slice(0, MAX_HIGHLIGHT_LENGTH) + "...";
+  }
+
+  // Terms are only letters, digits and underscores, so safe in a pattern
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return sentence;
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])(${terms.join("|")})(?![\\p{L}\\p{N}_])`, "giu");
+  return sentence.replace(pattern, "**$1**");
+}
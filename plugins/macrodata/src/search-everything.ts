@@ -0,0 +1,192 @@
+/**
+ * Unified search across memory and past conversations
+ *
+ * Queries the memory index, the Claude Code conversation index and the
+ * OpenCode conversation index, and fuses their rankings into one list.
+ * Each index scores differently (hybrid rank fusion for memory, similarity
+ * weighted by age and project for conversations), so the scores themselves
+ * can't be compared. Instead the fused score combines:
+ * - each hit's rank within its own index
+ * - its rank among all hits by cosine similarity to the query, the one
+ *   measure every index shares, which decides between the best hits of
+ *   different indexes
+ *
+ * An index that fails (missing, or built with another model) is skipped
+ * and reported, rather than failing the whole search.
+ */
+
+import { searchMemory, resolveSourcePath } from "./indexer.js";
+import { searchConversations } from "./conversations.js";
+import { reciprocalRankFusion } from "./ranking.js";
+import {
+  searchConversations as searchOpenCodeConversations,
+  getSessionPath as getOpenCodeSessionPath,
+} from "./opencode-conversations.js";
+
+export type SearchOrigin = "memory" | "claude-code" | "opencode";
+
+export const SEARCH_ORIGINS: SearchOrigin[] = ["memory", "claude-code", "opencode"];
+
+/**
+ * Where to read the rest of a hit: a memory file and section, or a
+ * conversation session and the message the exchange starts with
+ */
+export type ExpandTarget =
+  | { path: string; section?: string; id: string }
+  | { sessionPath: string; messageUuid: string };
+
+export interface UnifiedSearchHit {
+  origin: SearchOrigin;
+  id: string;
+  /** Memory type and section, or conversation project */
+  title: string;
+  content: string;
+  timestamp?: string;
+  /** Fused score, 0-1 */
+  score: number;
+  /** Score from the hit's own index, not comparable across origins */
+  originScore: number;
+  /** Cosine similarity to the query, if the hit was found by meaning */
+  similarity?: number;
+  expand: ExpandTarget;
+}
+
+export interface SkippedOrigin {
+  origin: SearchOrigin;
+  error: string;
+}
+
+export interface UnifiedSearchResults {
+  hits: UnifiedSearchHit[];
+  /** Indexes that couldn't be searched */
+  skipped: SkippedOrigin[];
+}
+
+/**
+ * Fuse per-origin result lists (each best first) into one ranking
+ * Scores are normalised to 0-1, where 1 means first in its own index and
+ * the most similar to the query overall.
+ */
+export function fuseHits(lists: UnifiedSearchHit[][], limit: number): UnifiedSearchHit[] {
+  const hits = new Map<string, UnifiedSearchHit>();
+  const rankings: string[][] = [];
+
+  for (const list of lists) {
+    if (list.length === 0) continue;
+    const ranking: string[] = [];
+    for (const hit of list) {
+      const key = `${hit.origin}:${hit.id}`;
+      if (hits.has(key)) continue;
+      hits.set(key, hit);
+      ranking.push(key);
+    }
+    rankings.push(ranking);
+  }
+  if (rankings.length === 0) return [];
+
+  const bySimilarity = [...hits]
+    .filter(([, hit]) => hit.similarity !== undefined)
+    .sort(([, a], [, b]) => (b.similarity ?? 0) - (a.similarity ?? 0))
+    .map(([key]) => key);
+  rankings.push(bySimilarity);
+
+  // Each hit is in at most two rankings, its origin's and the similarity one
+  const fused = reciprocalRankFusion(rankings);
+  const scale = rankings.length / 2;
+
+  return [...fused]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit)
+    .map(([key, score]) => ({ ...hits.get(key)!, score: score * scale }));
+}
+
+interface OriginSearchOptions {
+  limit: number;
+  currentProject?: string;
+  diversity?: number;
+  indexedSince?: number;
+}
+
+async function searchMemoryHits(query: string, options: OriginSearchOptions): Promise<UnifiedSearchHit[]> {
+  const results = await searchMemory(query, { ...options, explain: true });
+  return results.map((r) => ({
+    origin: "memory" as const,
+    id: r.id,
+    title: `${r.type}${r.section ? ` / ${r.section}` : ""}`,
+    content: r.content,
+    timestamp: r.timestamp,
+    score: r.score,
+    originScore: r.score,
+    similarity: r.explain?.similarity,
+    expand: { path: resolveSourcePath(r), section: r.section, id: r.id },
+  }));
+}
+
+async function searchClaudeCodeHits(query: string, options: OriginSearchOptions): Promise<UnifiedSearchHit[]> {
+  const results = await searchConversations(query, options);
+  return results.map((r) => ({
+    origin: "claude-code" as const,
+    id: r.exchange.id,
+    title: `${r.exchange.project}${r.exchange.branch ? ` (${r.exchange.branch})` : ""}`,
+    content: `${r.exchange.userPrompt}\n${r.exchange.assistantSummary}`,
+    timestamp: r.exchange.timestamp,
+    score: r.adjustedScore,
+    originScore: r.adjustedScore,
+    similarity: r.score,
+    expand: { sessionPath: r.exchange.sessionPath, messageUuid: r.exchange.messageUuid },
+  }));
+}
+
+async function searchOpenCodeHits(query: string, options: OriginSearchOptions): Promise<UnifiedSearchHit[]> {
+  const results = await searchOpenCodeConversations(query, options);
+  return results.map((r) => ({
+    origin: "opencode" as const,
+    id: r.exchange.id,
+    title: r.exchange.project,
+    content: `${r.exchange.userPrompt}\n${r.exchange.assistantSummary}`,
+    timestamp: r.exchange.timestamp,
+    score: r.adjustedScore,
+    originScore: r.adjustedScore,
+    similarity: r.score,
+    expand: { sessionPath: getOpenCodeSessionPath(r.exchange.sessionId), messageUuid: r.exchange.messageId },
+  }));
+}
+
+/**
+ * Search memory and past conversations, returning one fused ranking and
+ * any indexes that had to be skipped
+ */
+export async function searchEverything(
+  query: string,
+  options: {
+    limit?: number;
+    /** Indexes to search (default: all) */
+    origins?: SearchOrigin[];
+    /** Path to the current project, boosted in journal and conversation results */
+    currentProject?: string;
+    /** 0-1, diversity of each index's results (default from config) */
+    diversity?: number;
+    /** Only items indexed or changed at or after this time (ms since epoch) */
+    indexedSince?: number;
+  } = {}
+): Promise<UnifiedSearchResults> {
+  const { limit = 10, origins = SEARCH_ORIGINS, ...originOptions } = options;
+  const searchers: Record<SearchOrigin, typeof searchMemoryHits> = {
+    memory: searchMemoryHits,
+    "claude-code": searchClaudeCodeHits,
+    opencode: searchOpenCodeHits,
+  };
+
+  // Each origin can fill every slot, so ask each for the full limit
+  const lists: UnifiedSearchHit[][] = [];
+  const skipped: SkippedOrigin[] = [];
+  for (const origin of origins) {
+    try {
+      lists.push(await searchers[origin](query, { limit, ...originOptions }));
+    } catch (err) {
+      skipped.push({ origin, error: String(err) });
+    }
+  }
+
+  return { hits: fuseHits(lists, limit), skipped };
+}
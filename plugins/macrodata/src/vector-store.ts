@@ -0,0 +1,367 @@
+/**
+ * Vector store
+ *
+ * SQLite storage for the search indexes, using bun:sqlite. Each index is a
+ * single database file with:
+ * - items: id, metadata (JSON), the vector as a Float32 blob, and when the
+ *   vector last changed
+ * - items_fts: an FTS5 table over each item's searchable text
+ * - meta: key/value settings, such as which model built the index
+ *
+ * Vector search is a scan over the blobs, without parsing metadata for
+ * anything but the top results. Unlike the JSON files Vectra used, nothing
+ * needs to be loaded up front, and other processes' writes are visible
+ * immediately.
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync, mkdirSync, readFileSync, rmSync } from "fs";
+import { dirname, join } from "path";
+import { withLock } from "./lock.js";
+import { cosineSimilarity, tokenize } from "./ranking.js";
+
+export type ItemMetadata = Record<string, string | number | boolean>;
+
+export interface StoredItem {
+  id: string;
+  vector: number[];
+  metadata: ItemMetadata;
+}
+
+export interface StoreItemInput extends StoredItem {
+  /** Text for full-text search */
+  text: string;
+}
+
+/** Predicate on item metadata, applied before the top-k cut */
+export type MetadataFilter = (metadata: ItemMetadata) => boolean;
+
+export interface QueryOptions {
+  /** Only items whose vector changed at or after this time (ms since epoch) */
+  indexedSince?: number;
+  /** Include each match's vector, e.g. for diversifying results */
+  withVectors?: boolean;
+}
+
+export interface StoreMatch {
+  id: string;
+  metadata: ItemMetadata;
+  score: number;
+  /** Only from vector queries with withVectors */
+  vector?: Float32Array;
+}
+
+interface ItemRow {
+  id: string;
+  vector: Uint8Array;
+  metadata: string;
+}
+
+function encodeVector(vector: number[]): Uint8Array {
+  return new Uint8Array(new Float32Array(vector).buffer);
+}
+
+function decodeVector(blob: Uint8Array): Float32Array {
+  // Copy, as the blob's offset may not be 4-byte aligned
+  return new Float32Array(blob.slice().buffer);
+}
+
+export class VectorStore {
+  private db: Database;
+
+  constructor(readonly path: string) {
+    const dir = dirname(path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    // Wait for other processes' writes rather than failing, including
+    // while switching to WAL
+    this.db.exec("PRAGMA busy_timeout = 5000");
+    this.db.exec("PRAGMA journal_mode = WAL");
+    // Overwrite deleted content, so a redacted journal entry doesn't
+    // linger in free pages
+    this.db.exec("PRAGMA secure_delete = ON");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS items (
+        rowid INTEGER PRIMARY KEY,
+        id TEXT NOT NULL UNIQUE,
+        source TEXT,
+        vector BLOB NOT NULL,
+        metadata TEXT NOT NULL,
+        indexed_at INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS items_source ON items (source);
+      CREATE VIRTUAL TABLE IF NOT EXISTS items_fts USING fts5 (text);
+      CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+
+    // Added after the first SQLite release. The check and change are one
+    // write transaction, so processes opening the same index don't both add it
+    this.db
+      .transaction(() => {
+        const columns = this.db.query("PRAGMA table_info(items)").all() as Array<{ name: string }>;
+        if (!columns.some((column) => column.name === "indexed_at")) {
+          this.db.exec("ALTER TABLE items ADD COLUMN indexed_at INTEGER NOT NULL DEFAULT 0");
+        }
+      })
+      .immediate();
+    this.db.exec("CREATE INDEX IF NOT EXISTS items_indexed_at ON items (indexed_at)");
+
+    // FTS5 otherwise keeps deleted text in its segments until they merge.
+    // The setting is stored in the index, so only set it once.
+    const secureDelete = this.db.query("SELECT v FROM items_fts_config WHERE k = 'secure-delete'").get() as {
+      v: number;
+    } | null;
+    if (!secureDelete?.v) {
+      try {
+        this.db.exec("INSERT INTO items_fts (items_fts, rank) VALUES ('secure-delete', 1)");
+      } catch {
+        // Needs SQLite 3.44 or later
+      }
+    }
+  }
+
+  count(): number {
+    const row = this.db.query("SELECT COUNT(*) AS count FROM items").get() as { count: number };
+    return row.count;
+  }
+
+  get(id: string): StoredItem | null {
+    const row = this.db.query("SELECT id, vector, metadata FROM items WHERE id = ?").get(id) as ItemRow | null;
+    if (!row) return null;
+    return { id: row.id, vector: Array.from(decodeVector(row.vector)), metadata: JSON.parse(row.metadata) };
+  }
+
+  /**
+   * List every item's id and metadata, without vectors
+   */
+  list(): Array<{ id: string; metadata: ItemMetadata }> {
+    const rows = this.db.query("SELECT id, metadata FROM items ORDER BY rowid").all() as Array<Omit<ItemRow, "vector">>;
+    return rows.map((row) => ({ id: row.id, metadata: JSON.parse(row.metadata) }));
+  }
+
+  /**
+   * List the items matching a filter with their vectors, decoding each
+   * vector once. The filter is given each item's metadata and id.
+   */
+  listVectors(
+    filter: (metadata: ItemMetadata, id: string) => boolean
+  ): Array<{ id: string; metadata: ItemMetadata; vector: Float32Array }> {
+    const items: Array<{ id: string; metadata: ItemMetadata; vector: Float32Array }> = [];
+    const rows = this.db.query("SELECT id, vector, metadata FROM items ORDER BY rowid").iterate() as IterableIterator<ItemRow>;
+    for (const row of rows) {
+      const metadata = JSON.parse(row.metadata) as ItemMetadata;
+      if (filter(metadata, row.id)) items.push({ id: row.id, metadata, vector: decodeVector(row.vector) });
+    }
+    return items;
+  }
+
+  listIds(): string[] {
+    const rows = this.db.query("SELECT id FROM items").all() as Array<{ id: string }>;
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Ids of items whose metadata.source is the given file
+   * With a type, only items whose metadata.type is that type.
+   */
+  listIdsBySource(source: string, type?: string): string[] {
+    const rows = (
+      type === undefined
+        ? this.db.query("SELECT id FROM items WHERE source = ?").all(source)
+        : this.db.query("SELECT id FROM items WHERE source = ? AND json_extract(metadata, '$.type') = ?").all(source, type)
+    ) as Array<{ id: string }>;
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Insert or replace items in a single transaction
+   * An item keeps its indexed time if its vector is unchanged, so
+   * re-indexing a file only marks the text that changed as new.
+   */
+  upsert(items: StoreItemInput[]): void {
+    const upsertItem = this.db.query(`
+      INSERT INTO items (id, source, vector, metadata, indexed_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        source = excluded.source,
+        vector = excluded.vector,
+        metadata = excluded.metadata,
+        indexed_at = CASE WHEN items.vector = excluded.vector THEN items.indexed_at ELSE excluded.indexed_at END
+      RETURNING rowid
+    `);
+    const deleteText = this.db.query("DELETE FROM items_fts WHERE rowid = ?");
+    const insertText = this.db.query("INSERT INTO items_fts (rowid, text) VALUES (?, ?)");
+
+    const now = Date.now();
+
+    this.db.transaction(() => {
+      for (const item of items) {
+        const source = typeof item.metadata.source === "string" ? item.metadata.source : null;
+        const { rowid } = upsertItem.get(
+          item.id,
+          source,
+          encodeVector(item.vector),
+          JSON.stringify(item.metadata),
+          now
+        ) as { rowid: number };
+        deleteText.run(rowid);
+        insertText.run(rowid, item.text);
+      }
+    })();
+  }
+
+  /**
+   * Delete items by id in a single transaction
+   */
+  delete(ids: string[]): void {
+    const deleteText = this.db.query("DELETE FROM items_fts WHERE rowid = (SELECT rowid FROM items WHERE id = ?)");
+    const deleteItem = this.db.query("DELETE FROM items WHERE id = ?");
+
+    this.db.transaction(() => {
+      for (const id of ids) {
+        deleteText.run(id);
+        deleteItem.run(id);
+      }
+    })();
+  }
+
+  /**
+   * Copy the write-ahead log into the database and truncate it, so
+   * deleted content isn't left in the log. Processes still reading can
+   * keep parts of it from being truncated until their next check.
+   */
+  checkpoint(): void {
+    this.db.exec("PRAGMA wal_checkpoint(TRUNCATE)");
+  }
+
+  /**
+   * Remove every item, keeping the meta table
+   */
+  clear(): void {
+    this.db.transaction(() => {
+      this.db.exec("DELETE FROM items");
+      this.db.exec("DELETE FROM items_fts");
+    })();
+  }
+
+  /**
+   * Nearest items to a vector by cosine similarity
+   * With a filter, only matching items are ranked, so up to topK matches
+   * are returned however selective it is.
+   */
+  query(vector: number[], topK: number, filter?: MetadataFilter, options: QueryOptions = {}): StoreMatch[] {
+    const top: Array<{ id: string; score: number; vector?: Float32Array }> = [];
+    const columns = filter ? "id, vector, metadata" : "id, vector";
+    const rows = this.db
+      .query(`SELECT ${columns} FROM items WHERE indexed_at >= ?`)
+      .iterate(options.indexedSince ?? 0) as IterableIterator<ItemRow>;
+
+    for (const row of rows) {
+      if (filter && !filter(JSON.parse(row.metadata))) continue;
+      const itemVector = decodeVector(row.vector);
+      const score = cosineSimilarity(vector, itemVector);
+      if (top.length < topK || score > top[top.length - 1].score) {
+        top.push({ id: row.id, score, ...(options.withVectors && { vector: itemVector }) });
+        top.sort((a, b) => b.score - a.score);
+        if (top.length > topK) top.pop();
+      }
+    }
+
+    return this.withMetadata(top);
+  }
+
+  /**
+   * Full-text search, ranked by FTS5's BM25
+   * Any query term can match; quoting each term keeps FTS5 syntax
+   * characters in the query from being interpreted.
+   */
+  search(query: string, limit: number, filter?: MetadataFilter, options: QueryOptions = {}): StoreMatch[] {
+    const terms = tokenize(query);
+    if (terms.length === 0) return [];
+
+    const match = terms.map((term) => `"${term}"`).join(" OR ");
+    const rows = this.db
+      .query(
+        `SELECT items.id AS id, items.metadata AS metadata, -bm25(items_fts) AS score FROM items_fts
+         JOIN items ON items.rowid = items_fts.rowid
+         WHERE items_fts MATCH ? AND items.indexed_at >= ? ORDER BY bm25(items_fts)`
+      )
+      .iterate(match, options.indexedSince ?? 0) as IterableIterator<{ id: string; metadata: string; score: number }>;
+
+    // Walk the ranking until enough items pass the filter
+    const matches: StoreMatch[] = [];
+    for (const row of rows) {
+      const metadata = JSON.parse(row.metadata) as ItemMetadata;
+      if (filter && !filter(metadata)) continue;
+      matches.push({ id: row.id, metadata, score: row.score });
+      if (matches.length >= limit) break;
+    }
+    return matches;
+  }
+
+  private withMetadata(matches: Array<{ id: string; score: number; vector?: Float32Array }>): StoreMatch[] {
+    const getMetadata = this.db.query("SELECT metadata FROM items WHERE id = ?");
+    return matches.map((match) => {
+      const row = getMetadata.get(match.id) as { metadata: string };
+      return { ...match, metadata: JSON.parse(row.metadata) };
+    });
+  }
+
+  getMeta<T>(key: string): T | null {
+    const row = this.db.query("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | null;
+    return row ? (JSON.parse(row.value) as T) : null;
+  }
+
+  setMeta(key: string, value: unknown): void {
+    this.db
+      .query("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value")
+      .run(key, JSON.stringify(value));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Import a Vectra index directory into a store, then remove it
+ *
+ * Indexes used to be Vectra JSON files (index.json, plus meta.json for
+ * the model). The vectors are copied across so nothing needs re-embedding.
+ * Only runs into an empty store; returns the number of items imported.
+ */
+export function migrateVectraIndex(
+  store: VectorStore,
+  legacyPath: string,
+  getText: (metadata: ItemMetadata) => string
+): number {
+  const indexFile = join(legacyPath, "index.json");
+  if (!existsSync(indexFile)) return 0;
+
+  // Another process may be migrating it too
+  return withLock(store.path, () => {
+    if (!existsSync(indexFile) || store.count() > 0) return 0;
+
+    const data = JSON.parse(readFileSync(indexFile, "utf-8")) as {
+      items: Array<{ id: string; vector: number[]; metadata: ItemMetadata }>;
+    };
+    store.upsert(data.items.map((item) => ({ ...item, text: getText(item.metadata) })));
+
+    const metaFile = join(legacyPath, "meta.json");
+    if (existsSync(metaFile)) {
+      try {
+        store.setMeta("index", JSON.parse(readFileSync(metaFile, "utf-8")));
+      } catch {
+        // Treated as a legacy index without metadata
+      }
+    }
+
+    rmSync(legacyPath, { recursive: true, force: true });
+    return data.items.length;
+  });
+}
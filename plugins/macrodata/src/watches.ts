@@ -0,0 +1,181 @@
+/**
+ * Watch queries
+ *
+ * A watch is a standing query such as "anything about the billing
+ * migration". The daemon checks watches whenever it sees new journal
+ * entries, entity sections or conversation exchanges, and reports hits
+ * whose similarity to the query is above the watch's threshold and which
+ * haven't been reported before.
+ *
+ * Each check only searches items indexed or changed since the watch's
+ * last check, so a new hit is found however many older items rank above
+ * it. The window overlaps the previous check a little, in case another
+ * process was still writing, and hits already reported are skipped.
+ *
+ * Watches live in watches/<id>.json, like reminders. Each records the hits
+ * it has already seen, so a hit is only reported once however many
+ * processes indexed it.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import { getWatchesDir } from "./config.js";
+import { withLock } from "./lock.js";
+import { searchEverything, type UnifiedSearchHit } from "./search-everything.js";
+
+export interface Watch {
+  id: string;
+  query: string;
+  /** Minimum cosine similarity to the query for a hit to be reported (default 0.5) */
+  threshold?: number;
+  createdAt: string;
+  /** When the watch was last checked; later items are new to it */
+  checkedAt?: string;
+  /** Keys (origin:id) of hits already reported or present when created */
+  seen?: string[];
+}
+
+export interface WatchMatch {
+  watch: Watch;
+  hit: UnifiedSearchHit;
+}
+
+export const DEFAULT_WATCH_THRESHOLD = 0.5;
+
+// Hits fetched per watch check, before the threshold is applied
+const CANDIDATES = 20;
+
+// How far each check reaches back before the previous one
+const CHECK_OVERLAP_MS = 60_000;
+
+// Seen keys kept per watch, oldest dropped first
+const MAX_SEEN = 500;
+
+function getWatchPath(id: string): string {
+  return join(getWatchesDir(), `${id}.json`);
+}
+
+function hitKey(hit: UnifiedSearchHit): string {
+  return `${hit.origin}:${hit.id}`;
+}
+
+function readWatch(path: string): Watch | null {
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as Watch;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load all watches, skipping malformed files
+ */
+export function loadWatches(): Watch[] {
+  const dir = getWatchesDir();
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter((f) => f.endsWith(".json"))
+    .map((f) => readWatch(join(dir, f)))
+    .filter((watch): watch is Watch => watch !== null);
+}
+
+/**
+ * Hits for a query above the threshold, among items indexed since a time
+ * Returns null if an index couldn't be searched.
+ */
+async function findMatches(
+  watch: Pick<Watch, "query" | "threshold">,
+  indexedSince: number
+): Promise<UnifiedSearchHit[] | null> {
+  const { query, threshold = DEFAULT_WATCH_THRESHOLD } = watch;
+  // No diversification, as a new hit may closely resemble a seen one
+  const { hits, skipped } = await searchEverything(query, { limit: CANDIDATES, diversity: 0, indexedSince });
+  if (skipped.length > 0) return null;
+  return hits.filter((hit) => (hit.similarity ?? 0) >= threshold);
+}
+
+/**
+ * Create or replace a watch
+ * Only memory indexed after it was created is reported.
+ */
+export function addWatch(watch: Omit<Watch, "seen" | "checkedAt">): Watch {
+  const saved: Watch = { ...watch, checkedAt: new Date().toISOString(), seen: [] };
+
+  mkdirSync(getWatchesDir(), { recursive: true });
+  const path = getWatchPath(watch.id);
+  withLock(path, () => writeFileSync(path, JSON.stringify(saved, null, 2)));
+  return saved;
+}
+
+/**
+ * Delete a watch. Returns false if it doesn't exist.
+ */
+export function removeWatch(id: string): boolean {
+  const path = getWatchPath(id);
+  return withLock(path, () => {
+    if (!existsSync(path)) return false;
+    unlinkSync(path);
+    return true;
+  });
+}
+
+/**
+ * Check every watch for hits it hasn't seen
+ * A watch that hasn't been checked before (e.g. written by hand) records
+ * its latest hits without reporting them. If an index can't be searched,
+ * the watch is checked from the same time again next run.
+ */
+export async function checkWatches(): Promise<WatchMatch[]> {
+  const matches: WatchMatch[] = [];
+
+  for (const watch of loadWatches()) {
+    const startedAt = Date.now();
+    const lastChecked = watch.checkedAt ? Date.parse(watch.checkedAt) : NaN;
+    const isNew = Number.isNaN(lastChecked);
+    // Never reach back before the watch was created
+    const createdAt = Date.parse(watch.createdAt);
+    const since = (isNew ? startedAt : lastChecked) - CHECK_OVERLAP_MS;
+    const hits = await findMatches(watch, Number.isNaN(createdAt) ? since : Math.max(since, createdAt));
+    const seen = new Set(watch.seen ?? []);
+    const unseen = (hits ?? []).filter((hit) => !seen.has(hitKey(hit)));
+
+    // Re-read under the lock, as the watch may have been replaced or
+    // removed while searching
+    const path = getWatchPath(watch.id);
+    const saved = withLock(path, () => {
+      const current = readWatch(path);
+      if (!current || current.query !== watch.query) return false;
+      const updated = [...(current.seen ?? []), ...unseen.map(hitKey)].slice(-MAX_SEEN);
+      const checkedAt = hits ? new Date(startedAt).toISOString() : current.checkedAt;
+      writeFileSync(path, JSON.stringify({ ...current, checkedAt, seen: updated }, null, 2));
+      return true;
+    });
+
+    if (saved && !isNew) {
+      matches.push(...unseen.map((hit) => ({ watch, hit })));
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Format a match for .pending-context
+ */
+export function formatWatchMatch({ watch, hit }: WatchMatch): string {
+  const location =
+    "path" in hit.expand
+      ? `File: ${hit.expand.path}${hit.expand.section ? ` > ${hit.expand.section}` : ""}`
+      : `Session: ${hit.expand.sessionPath} (message ${hit.expand.messageUuid})`;
+  const content = hit.content.slice(0, 300) + (hit.content.length > 300 ? "..." : "");
+  const similarity = (hit.similarity ?? 0).toFixed(3);
+
+  return `<macrodata-update type="watch-match" watch="${watch.id}" origin="${hit.origin}" similarity="${similarity}">
+Watch: ${watch.query}
+${hit.title}${hit.timestamp ? ` (${hit.timestamp})` : ""}
+${location}
+
+${content}
+</macrodata-update>`;
+}
@@ -0,0 +1,41 @@
+/**
+ * Tests for vector clustering
+ *
+ * Pure functions - no embeddings required
+ */
+
+import { describe, test, expect } from "bun:test";
+import { kMeans } from "../src/clustering";
+
+describe("kMeans", () => {
+  const vectors = [
+    [1, 0.1, 0],
+    [0.9, 0, 0.1],
+    [1, 0, 0],
+    [0, 1, 0.1],
+    [0.1, 0.9, 0],
+    [0, 0.1, 1],
+  ];
+
+  test("groups vectors pointing the same way", () => {
+    const { assignments } = kMeans(vectors, 3);
+    expect(assignments[0]).toBe(assignments[1]);
+    expect(assignments[1]).toBe(assignments[2]);
+    expect(assignments[3]).toBe(assignments[4]);
+    expect(new Set([assignments[0], assignments[3], assignments[5]]).size).toBe(3);
+  });
+
+  test("gives the same clusters for the same vectors", () => {
+    expect(kMeans(vectors, 2)).toEqual(kMeans(vectors, 2));
+  });
+
+  test("uses at most one cluster per vector", () => {
+    const { assignments, centroids } = kMeans(vectors.slice(0, 2), 5);
+    expect(centroids.length).toBe(2);
+    expect(assignments.length).toBe(2);
+  });
+
+  test("returns nothing for no vectors", () => {
+    expect(kMeans([], 3)).toEqual({ assignments: [], centroids: [] });
+  });
+});
@@ -6,7 +6,15 @@
 
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
 import { createTestContext, type TestContext } from "./helpers";
-import { getStateRoot, getStateDir, getEntitiesDir, getJournalDir, getIndexDir, getRemindersDir } from "../src/config";
+import {
+  getStateRoot,
+  getStateDir,
+  getEntitiesDir,
+  getJournalDir,
+  getIndexDir,
+  getRemindersDir,
+  getEmbeddingConfig,
+} from "../src/config";
 
 describe("config", () => {
   let ctx: TestContext;
@@ -59,4 +67,13 @@ describe("config", () => {
     process.env.MACRODATA_ROOT = originalRoot;
     expect(getStateRoot()).toBe(originalRoot);
   });
+
+  test("MACRODATA_EMBEDDINGS overrides the embedding config", () => {
+    process.env.MACRODATA_EMBEDDINGS = JSON.stringify({ provider: "hash", dimensions: 32 });
+    try {
+      expect(getEmbeddingConfig()).toEqual({ provider: "hash", dimensions: 32 });
+    } finally {
+      delete process.env.MACRODATA_EMBEDDINGS;
+    }
+  });
 });
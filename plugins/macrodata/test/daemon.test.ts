@@ -4,13 +4,12 @@
  * Tests the background daemon process that handles scheduling and file watching.
  * NOTE: These tests start real daemon processes in isolated temp directories.
  *
- * IMPORTANT: The daemon imports the indexer which requires @xenova/transformers
- * and sharp. If sharp is not built, these tests will be skipped.
+ * Daemons use the hash embedding provider, so no model is loaded.
  */
 
 import { describe, test, expect, beforeEach, afterEach, afterAll } from "bun:test";
 import { spawn } from "child_process";
-import { existsSync, readFileSync, rmSync } from "fs";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
 import { join, dirname } from "path";
 import {
   createTestContext,
@@ -19,25 +18,21 @@ import {
   type TestContext,
 } from "./helpers";
 
-// Check if daemon can start (requires sharp to be built)
-let daemonAvailable = false;
-try {
-  await import("@xenova/transformers");
-  daemonAvailable = true;
-} catch {
-  console.warn("[Test] Daemon tests skipped - sharp not built");
-}
-
 // Track all started daemons for cleanup
 const startedDaemons: { pid: number; ctx: TestContext }[] = [];
 
 // Get paths
 const DAEMON_SCRIPT = join(dirname(import.meta.dir), "bin", "macrodata-daemon.ts");
 
-async function startDaemon(ctx: TestContext): Promise<number | null> {
+async function startDaemon(ctx: TestContext, env: Record<string, string> = {}): Promise<number | null> {
   return new Promise((resolve) => {
     const proc = spawn("bun", ["run", DAEMON_SCRIPT], {
-      env: { ...process.env, MACRODATA_ROOT: ctx.root },
+      env: {
+        ...process.env,
+        MACRODATA_ROOT: ctx.root,
+        MACRODATA_EMBEDDINGS: JSON.stringify({ provider: "hash" }),
+        ...env,
+      },
       stdio: ["ignore", "pipe", "pipe"],
       detached: true,
     });
@@ -86,7 +81,7 @@ afterAll(() => {
   }
 });
 
-describe.skipIf(!daemonAvailable)("daemon", () => {
+describe("daemon", () => {
   let ctx: TestContext;
 
   beforeEach(() => {
@@ -266,6 +261,76 @@ describe.skipIf(!daemonAvailable)("daemon", () => {
     });
   });
 
+  describe("file watching", () => {
+    test("notices deleted entity files", async () => {
+      const entityFile = join(ctx.root, "entities", "people", "frank.md");
+      writeFileSync(entityFile, "# Frank\n\n## About\n\nTemporary contact.\n");
+
+      const pid = await startDaemon(ctx);
+      expect(pid).not.toBeNull();
+
+      await Bun.sleep(500);
+      rmSync(entityFile);
+      await Bun.sleep(1000);
+
+      const log = readFileSync(join(ctx.root, ".daemon.log"), "utf-8");
+      expect(log).toContain(`File unlink: ${entityFile}`);
+
+      const pending = readFileSync(join(ctx.root, ".pending-context"), "utf-8");
+      expect(pending).toContain(`<macrodata-update type="entity-removed" file="people/frank.md" />`);
+    });
+
+    test("queues state and topic files for reindexing", async () => {
+      const pid = await startDaemon(ctx);
+      expect(pid).not.toBeNull();
+
+      await Bun.sleep(500);
+      const stateFile = join(ctx.root, "state", "today.md");
+      const topicFile = join(ctx.root, "topics", "caching.md");
+      mkdirSync(join(ctx.root, "topics"), { recursive: true });
+      writeFileSync(stateFile, "# Today\n\n## Focus\n\nShip the release.\n");
+      writeFileSync(topicFile, "# Caching\n\nPrefer write-through.\n");
+      await Bun.sleep(2000);
+
+      const log = readFileSync(join(ctx.root, ".daemon.log"), "utf-8");
+      expect(log).toMatch(new RegExp(`File (add|change): ${stateFile}`));
+      expect(log).toContain(`File add: ${topicFile}`);
+      expect(log).toContain("Reindexing 2 file(s)");
+    });
+  });
+
+  describe("journal mirror", () => {
+    test("leaves notes it didn't write alone", async () => {
+      // config.json is read from the home directory
+      const home = join(ctx.root, "home");
+      const vault = join(ctx.root, "vault");
+      mkdirSync(join(home, ".config", "macrodata"), { recursive: true });
+      writeFileSync(
+        join(home, ".config", "macrodata", "config.json"),
+        JSON.stringify({ export: { dir: vault, mirror: true } })
+      );
+
+      const own = "# 2024-01-01\n\nMy own note\n";
+      mkdirSync(vault, { recursive: true });
+      writeFileSync(join(vault, "2024-01-01.md"), own);
+      const journalFile = join(ctx.journalDir, "2025-06-02.jsonl");
+      writeFileSync(journalFile, JSON.stringify({ timestamp: "2025-06-02T09:00:00.000Z", topic: "notes", content: "Mirrored" }) + "\n");
+
+      const pid = await startDaemon(ctx, { HOME: home });
+      expect(pid).not.toBeNull();
+
+      await Bun.sleep(1000);
+      expect(readFileSync(join(vault, "2025-06-02.md"), "utf-8")).toContain("Mirrored");
+
+      rmSync(journalFile);
+      process.kill(pid!, "SIGHUP");
+      await Bun.sleep(1500);
+
+      expect(existsSync(join(vault, "2025-06-02.md"))).toBe(false);
+      expect(readFileSync(join(vault, "2024-01-01.md"), "utf-8")).toBe(own);
+    });
+  });
+
   describe("SIGHUP reload", () => {
     test("reloads config on SIGHUP", async () => {
       const pid = await startDaemon(ctx);
@@ -0,0 +1,57 @@
+/**
+ * Tests for date expressions used by search filters
+ */
+
+import { describe, test, expect } from "bun:test";
+import { parseDateExpression } from "../src/dates";
+
+const now = new Date("2025-06-15T14:30:00.000Z");
+
+describe("parseDateExpression", () => {
+  test("resolves ISO dates to the start or end of the day", () => {
+    expect(parseDateExpression("2025-01-31", { now })).toBe("2025-01-31T00:00:00.000Z");
+    expect(parseDateExpression("2025-01-31", { now, end: true })).toBe("2025-01-31T23:59:59.999Z");
+  });
+
+  test("passes ISO timestamps through", () => {
+    expect(parseDateExpression("2025-01-31T08:15:00Z", { now })).toBe("2025-01-31T08:15:00.000Z");
+  });
+
+  test("resolves named days", () => {
+    expect(parseDateExpression("today", { now })).toBe("2025-06-15T00:00:00.000Z");
+    expect(parseDateExpression("Yesterday", { now })).toBe("2025-06-14T00:00:00.000Z");
+    expect(parseDateExpression("yesterday", { now, end: true })).toBe("2025-06-14T23:59:59.999Z");
+  });
+
+  test("resolves weekdays to the most recent one", () => {
+    // 2025-06-15 is a Sunday
+    expect(parseDateExpression("sunday", { now })).toBe("2025-06-15T00:00:00.000Z");
+    expect(parseDateExpression("Monday", { now })).toBe("2025-06-09T00:00:00.000Z");
+    expect(parseDateExpression("friday", { now, end: true })).toBe("2025-06-13T23:59:59.999Z");
+  });
+
+  test("resolves weekdays on or after a range's start", () => {
+    // 2026-10-14 is a Wednesday
+    const wednesday = new Date("2026-10-14T12:00:00.000Z");
+    const after = parseDateExpression("monday", { now: wednesday });
+    expect(after).toBe("2026-10-12T00:00:00.000Z");
+    expect(parseDateExpression("friday", { now: wednesday, end: true, after })).toBe("2026-10-16T23:59:59.999Z");
+    expect(parseDateExpression("monday", { now: wednesday, end: true, after })).toBe("2026-10-12T23:59:59.999Z");
+  });
+
+  test("resolves rolling periods", () => {
+    expect(parseDateExpression("last week", { now })).toBe("2025-06-08T14:30:00.000Z");
+    expect(parseDateExpression("past month", { now })).toBe("2025-05-15T14:30:00.000Z");
+    expect(parseDateExpression("7d", { now })).toBe("2025-06-08T14:30:00.000Z");
+    expect(parseDateExpression("12h", { now })).toBe("2025-06-15T02:30:00.000Z");
+    expect(parseDateExpression("3m", { now })).toBe("2025-03-15T14:30:00.000Z");
+    expect(parseDateExpression("1y", { now })).toBe("2024-06-15T14:30:00.000Z");
+    expect(parseDateExpression("2 weeks ago", { now })).toBe("2025-06-01T14:30:00.000Z");
+    expect(parseDateExpression("1 day ago", { now })).toBe("2025-06-14T14:30:00.000Z");
+  });
+
+  test("rejects expressions it doesn't recognise", () => {
+    expect(() => parseDateExpression("next tuesday", { now })).toThrow("Unrecognised date");
+    expect(() => parseDateExpression("2025-13-45T00:00:00Z", { now })).toThrow("Unrecognised date");
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for the persistent embedding cache
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { createTestContext, type TestContext } from "./helpers";
+import { Database } from "bun:sqlite";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { createHash } from "crypto";
+import {
+  hashText,
+  getCachedEmbeddings,
+  cacheEmbeddings,
+  forgetEmbeddings,
+  pruneEmbeddingCache,
+} from "../src/embedding-cache";
+
+function countCached(ctx: TestContext): number {
+  const db = new Database(join(ctx.indexDir, "embedding-cache.sqlite"), { readonly: true });
+  const { count } = db.query("SELECT COUNT(*) AS count FROM embeddings").get() as { count: number };
+  db.close();
+  return count;
+}
+
+describe("embedding cache", () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  afterEach(() => {
+    ctx.cleanup();
+  });
+
+  test("returns cached vectors by text hash", () => {
+    cacheEmbeddings("memory", "test-model", [[hashText("hello"), [0.5, 0.25, -1]]]);
+
+    const [hit, miss] = getCachedEmbeddings("memory", "test-model", [hashText("hello"), hashText("other")]);
+    expect(hit).toEqual([0.5, 0.25, -1]);
+    expect(miss).toBeUndefined();
+  });
+
+  test("keeps models and caches separate", () => {
+    cacheEmbeddings("memory", "model-a", [[hashText("hello"), [1, 0]]]);
+
+    expect(getCachedEmbeddings("memory", "model-b", [hashText("hello")])[0]).toBeUndefined();
+    expect(getCachedEmbeddings("conversations", "model-a", [hashText("hello")])[0]).toBeUndefined();
+  });
+
+  test("persists under the index directory", () => {
+    cacheEmbeddings("memory", "test-model", [[hashText("hello"), [1, 0]]]);
+
+    expect(existsSync(join(ctx.indexDir, "embedding-cache.sqlite"))).toBe(true);
+  });
+
+  test("prunes text that is no longer indexed", () => {
+    cacheEmbeddings("memory", "test-model", [
+      [hashText("kept"), [1, 0]],
+      [hashText("dropped"), [0, 1]],
+    ]);
+
+    const removed = pruneEmbeddingCache("memory", "test-model", ["kept"]);
+    expect(removed).toBe(1);
+
+    const [kept, dropped] = getCachedEmbeddings("memory", "test-model", [hashText("kept"), hashText("dropped")]);
+    expect(kept).toEqual([1, 0]);
+    expect(dropped).toBeUndefined();
+
+    expect(countCached(ctx)).toBe(1);
+  });
+
+  test("prunes only the named cache and model", () => {
+    cacheEmbeddings("memory", "test-model", [[hashText("memory"), [1, 0]]]);
+    cacheEmbeddings("conversations", "test-model", [[hashText("conversation"), [0, 1]]]);
+    cacheEmbeddings("memory", "other-model", [[hashText("memory"), [0, 1]]]);
+
+    expect(pruneEmbeddingCache("memory", "test-model", [])).toBe(1);
+    expect(countCached(ctx)).toBe(2);
+  });
+
+  test("forgets vectors for particular texts", () => {
+    cacheEmbeddings("memory", "test-model", [
+      [hashText("secret"), [1, 0]],
+      [hashText("public"), [0, 1]],
+    ]);
+
+    expect(forgetEmbeddings("memory", "test-model", ["secret"])).toBe(1);
+    const [secret, kept] = getCachedEmbeddings("memory", "test-model", [hashText("secret"), hashText("public")]);
+    expect(secret).toBeUndefined();
+    expect(kept).toEqual([0, 1]);
+  });
+
+  test("imports a legacy JSONL cache and removes it", () => {
+    const dir = join(ctx.indexDir, "embedding-cache");
+    const legacyPath = join(dir, `memory-${createHash("sha256").update("legacy-model").digest("hex").slice(0, 12)}.jsonl`);
+    mkdirSync(dir, { recursive: true });
+    const v = Buffer.from(new Float32Array([0.5, -0.5]).buffer).toString("base64");
+    writeFileSync(legacyPath, JSON.stringify({ h: hashText("old"), v }) + "\n");
+
+    expect(getCachedEmbeddings("memory", "legacy-model", [hashText("old")])[0]).toEqual([0.5, -0.5]);
+    expect(existsSync(legacyPath)).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for embedding providers
+ *
+ * The OpenAI-compatible provider is tested against a local stand-in server,
+ * so no model download is needed.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createEmbeddingProvider } from "../src/embeddings";
+
+describe("embeddings", () => {
+  describe("openai-compatible provider", () => {
+    let server: ReturnType<typeof Bun.serve>;
+    const requests: Array<{ model: string; input: string[]; auth: string | null }> = [];
+
+    beforeAll(() => {
+      server = Bun.serve({
+        port: 0,
+        async fetch(req) {
+          const url = new URL(req.url);
+          if (url.pathname !== "/v1/embeddings") {
+            return new Response("not found", { status: 404 });
+          }
+
+          const body = (await req.json()) as { model: string; input: string[] };
+          requests.push({ ...body, auth: req.headers.get("authorization") });
+
+          // Return out of order to check the provider sorts by index
+          const data = body.input
+            .map((text, index) => ({ index, embedding: [text.length, 0, 0, 0, 0] }))
+            .reverse();
+          return Response.json({ data });
+        },
+      });
+    });
+
+    afterAll(async () => {
+      await server.stop(true);
+    });
+
+    test("embeds texts in input order with discovered dimensions", async () => {
+      const provider = createEmbeddingProvider({
+        provider: "openai",
+        url: `http://localhost:${server.port}/v1/`,
+        model: "stand-in",
+      });
+
+      const vectors = await provider.embed(["a", "abc"]);
+      expect(vectors.length).toBe(2);
+      expect(vectors[0].length).toBe(5);
+      // Vectors are normalised to unit length
+      expect(vectors[0][0]).toBeCloseTo(1);
+      expect(vectors[1][0]).toBeCloseTo(1);
+      expect(requests.at(-1)!.model).toBe("stand-in");
+      expect(requests.at(-1)!.input).toEqual(["a", "abc"]);
+    });
+
+    test("batches large inputs", async () => {
+      const provider = createEmbeddingProvider({
+        provider: "openai",
+        url: `http://localhost:${server.port}/v1`,
+        model: "stand-in",
+      });
+
+      const before = requests.length;
+      const vectors = await provider.embed(Array.from({ length: 70 }, (_, i) => `text ${i}`));
+      expect(vectors.length).toBe(70);
+      expect(requests.length - before).toBe(3);
+    });
+
+    test("sends the API key when configured", async () => {
+      const provider = createEmbeddingProvider({
+        provider: "openai",
+        url: `http://localhost:${server.port}/v1`,
+        model: "stand-in",
+        apiKey: "secret",
+      });
+
+      await provider.embed(["hello"]);
+      expect(requests.at(-1)!.auth).toBe("Bearer secret");
+    });
+
+    test("throws on server errors", async () => {
+      const provider = createEmbeddingProvider({
+        provider: "openai",
+        url: `http://localhost:${server.port}/missing`,
+        model: "stand-in",
+      });
+
+      let error: unknown;
+      try {
+        await provider.embed(["hello"]);
+      } catch (err) {
+        error = err;
+      }
+      expect(String(error)).toContain("404");
+    });
+
+    test("identifies the model", () => {
+      const provider = createEmbeddingProvider({
+        provider: "openai",
+        url: "http://localhost:8080/v1",
+        model: "nomic-embed-text",
+      });
+      expect(provider.id).toBe("openai:nomic-embed-text@http://localhost:8080/v1");
+    });
+  });
+
+  describe("transformers provider", () => {
+    test("identifies the model", () => {
+      const provider = createEmbeddingProvider({
+        provider: "transformers",
+        model: "Xenova/all-MiniLM-L6-v2",
+      });
+      expect(provider.id).toBe("transformers:Xenova/all-MiniLM-L6-v2");
+    });
+  });
+
+  describe("hash provider", () => {
+    const provider = createEmbeddingProvider({ provider: "hash", dimensions: 64 });
+    const dot = (a: number[], b: number[]) => a.reduce((sum, x, i) => sum + x * b[i], 0);
+
+    test("identifies the dimensions", () => {
+      expect(provider.id).toBe("hash:64");
+    });
+
+    test("gives unit vectors that are closer when texts share words", async () => {
+      const [cache, sameWords, other] = await provider.embed([
+        "Moved the build cache",
+        "build cache moved",
+        "Lunch with Alice",
+      ]);
+      expect(cache.length).toBe(64);
+      expect(dot(cache, cache)).toBeCloseTo(1);
+      expect(dot(cache, sameWords)).toBeGreaterThan(dot(cache, other));
+      expect(await provider.embed(["Moved the build cache"])).toEqual([cache]);
+    });
+  });
+});
@@ -170,11 +170,13 @@ export function addJournalEntry(
  */
 export function addEntityFile(
   ctx: TestContext,
-  type: "people" | "projects",
+  type: string,
   name: string,
   content: string
 ) {
-  const filePath = join(ctx.entitiesDir, type, `${name}.md`);
+  const dir = join(ctx.entitiesDir, type);
+  mkdirSync(dir, { recursive: true });
+  const filePath = join(dir, `${name}.md`);
   writeFileSync(filePath, content);
 }
 
@@ -19,12 +19,16 @@ import {
 // Get the hook script path
 const HOOK_SCRIPT = join(dirname(import.meta.dir), "bin", "macrodata-hook.sh");
 
-function runHook(ctx: TestContext, command: "session-start" | "prompt-submit"): string {
+function runHook(
+  ctx: TestContext,
+  command: "session-start" | "prompt-submit",
+  env: Record<string, string> = {}
+): string {
   try {
     return execSync(`MACRODATA_ROOT="${ctx.root}" bash "${HOOK_SCRIPT}" ${command}`, {
       encoding: "utf-8",
       timeout: 10000,
-      env: { ...process.env, MACRODATA_ROOT: ctx.root },
+      env: { ...process.env, MACRODATA_ROOT: ctx.root, ...env },
     });
   } catch (err: unknown) {
     // Hook might fail if daemon can't start, but we still get output
@@ -98,6 +102,39 @@ describe("hook script", () => {
       expect(output).toContain("test-topic");
     });
 
+    test("prefers journal entries from the current project", () => {
+      const today = new Date().toISOString().split("T")[0];
+      const lines = [
+        { topic: "project-topic", content: "From this project", metadata: { projectPath: "/work/web" } },
+        ...Array.from({ length: 6 }, (_, i) => ({ topic: `other-${i}`, content: "From elsewhere" })),
+      ];
+      writeFileSync(
+        join(ctx.journalDir, `${today}.jsonl`),
+        lines.map((e) => JSON.stringify({ timestamp: new Date().toISOString(), ...e })).join("\n") + "\n"
+      );
+
+      expect(runHook(ctx, "session-start", { CLAUDE_PROJECT_DIR: "" })).not.toContain("project-topic");
+      const output = runHook(ctx, "session-start", { CLAUDE_PROJECT_DIR: "/work/web" });
+      expect(output).toContain("- [project-topic] From this project");
+      expect(output).toContain("other-5");
+    });
+
+    test("matches the current project however its path is written", () => {
+      const today = new Date().toISOString().split("T")[0];
+      const lines = [
+        { topic: "web-topic", content: "From the web project", metadata: { projectPath: "/work/web" } },
+        { topic: "root-topic", content: "From the state root", metadata: { projectPath: ctx.root } },
+        ...Array.from({ length: 6 }, (_, i) => ({ topic: `other-${i}`, content: "From elsewhere" })),
+      ];
+      writeFileSync(
+        join(ctx.journalDir, `${today}.jsonl`),
+        lines.map((e) => JSON.stringify({ timestamp: new Date().toISOString(), ...e })).join("\n") + "\n"
+      );
+
+      expect(runHook(ctx, "session-start", { CLAUDE_PROJECT_DIR: "/work/web/" })).toContain("web-topic");
+      expect(runHook(ctx, "session-start", { CLAUDE_PROJECT_DIR: `${ctx.journalDir}/../` })).toContain("root-topic");
+    });
+
     test("includes schedules section", () => {
       addReminder(ctx, "test-schedule", {
         type: "cron",
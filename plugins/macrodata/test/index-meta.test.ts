@@ -0,0 +1,81 @@
+/**
+ * Tests for index metadata checks
+ *
+ * Uses a local stand-in embedding server that counts requests, to check
+ * when opening an index asks the model for anything.
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { join } from "path";
+import { checkIndexMeta, INDEX_SCHEMA_VERSION, type IndexMeta } from "../src/index-meta";
+import { VectorStore } from "../src/vector-store";
+import { createTestContext, type TestContext } from "./helpers";
+
+describe("checkIndexMeta", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let requests = 0;
+  let model: string;
+  let ctx: TestContext;
+  let store: VectorStore;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        requests++;
+        const body = (await req.json()) as { input: string[] };
+        return Response.json({ data: body.input.map((_, index) => ({ index, embedding: [1, 0, 0, 0, 0] })) });
+      },
+    });
+    const url = `http://localhost:${server.port}/v1`;
+    model = `openai:stand-in@${url}`;
+    process.env.MACRODATA_EMBEDDINGS = JSON.stringify({ provider: "openai", url, model: "stand-in" });
+  });
+
+  afterAll(async () => {
+    delete process.env.MACRODATA_EMBEDDINGS;
+    await server.stop(true);
+  });
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    store = new VectorStore(join(ctx.indexDir, "test.sqlite"));
+    requests = 0;
+  });
+
+  afterEach(() => {
+    store.close();
+    ctx.cleanup();
+  });
+
+  const stamp = (meta: Partial<IndexMeta>) => {
+    store.upsert([{ id: "a", vector: [1, 0, 0, 0, 0], metadata: { source: "a.md" }, text: "a" }]);
+    store.setMeta("index", {
+      schemaVersion: INDEX_SCHEMA_VERSION,
+      chunkingVersion: 3,
+      model,
+      dimensions: 5,
+      createdAt: "2025-01-01T00:00:00.000Z",
+      ...meta,
+    });
+  };
+
+  test("opens an index built with the current model without embedding anything", async () => {
+    stamp({});
+    expect(await checkIndexMeta(store, 3)).toBeNull();
+    expect(store.count()).toBe(1);
+    expect(requests).toBe(0);
+  });
+
+  test("asks the model for dimensions to stamp a new index", async () => {
+    expect(await checkIndexMeta(store, 3)).toBeNull();
+    expect(store.getMeta<IndexMeta>("index")).toMatchObject({ model, dimensions: 5, chunkingVersion: 3 });
+  });
+
+  test("clears an index built with other settings", async () => {
+    stamp({ chunkingVersion: 2 });
+    expect(await checkIndexMeta(store, 3)).toBe("uses chunking v2, expected v3");
+    expect(store.count()).toBe(0);
+    expect(store.getMeta<IndexMeta>("index")).toMatchObject({ chunkingVersion: 3, dimensions: 5 });
+  });
+});
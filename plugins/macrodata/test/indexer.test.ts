@@ -3,9 +3,9 @@
  *
  * Tests semantic search indexing with isolated temp directories
  *
- * NOTE: These tests require the @xenova/transformers embeddings to work,
- * which depends on sharp being properly built. If sharp isn't available,
- * these tests will be skipped.
+ * Embeddings come from the hash provider rather than a real model, so the
+ * tests run anywhere and rankings are deterministic. Texts are similar
+ * when they share words.
  */
 
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
@@ -16,33 +16,47 @@ import {
   addEntityFile,
   type TestContext,
 } from "./helpers";
+import { Database } from "bun:sqlite";
 import { join } from "path";
+import { existsSync, unlinkSync, readdirSync, readFileSync, writeFileSync, mkdirSync } from "fs";
+import { VectorStore } from "../src/vector-store";
+import * as indexer from "../src/indexer";
 
-// Check if embeddings are available by trying to load the pipeline
-let embeddingsAvailable = false;
-try {
-  // Quick check - just see if transformers loads without sharp errors
-  await import("@xenova/transformers");
-  embeddingsAvailable = true;
-} catch {
-  console.warn("[Test] Embeddings not available - skipping indexer tests");
-}
-
-// Only import indexer if embeddings work
-const indexer = embeddingsAvailable ? await import("../src/indexer") : null;
-
-describe.skipIf(!embeddingsAvailable)("indexer", () => {
+describe("indexer", () => {
   let ctx: TestContext;
 
   beforeEach(() => {
+    process.env.MACRODATA_EMBEDDINGS = JSON.stringify({ provider: "hash" });
     ctx = createTestContext();
     setupMinimalState(ctx);
   });
 
   afterEach(() => {
     ctx.cleanup();
+    delete process.env.MACRODATA_EMBEDDINGS;
   });
 
+  const openStore = () => new VectorStore(join(ctx.indexDir, "memory.sqlite"));
+
+  // State files from setupMinimalState are indexed too, so count by type
+  const countItems = async (type: string) => {
+    const store = openStore();
+    const count = store.list().filter((item) => item.metadata.type === type).length;
+    store.close();
+    return count;
+  };
+
+  // Index directory in the format Vectra, the previous backend, used
+  const writeVectraIndex = (
+    items: Array<{ id: string; vector: number[]; metadata: Record<string, string> }>,
+    meta?: object
+  ) => {
+    const dir = join(ctx.indexDir, "vectors");
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "index.json"), JSON.stringify({ version: 1, metadata_config: {}, items }));
+    if (meta) writeFileSync(join(dir, "meta.json"), JSON.stringify(meta));
+  };
+
   describe("indexJournalEntry", () => {
     test(
       "indexes a single journal entry",
@@ -53,14 +67,32 @@ describe.skipIf(!embeddingsAvailable)("indexer", () => {
           content: "This is a test journal entry about integration testing",
         };
 
-        await indexer!.indexJournalEntry(entry);
+        await indexer.indexJournalEntry(entry);
 
-        const stats = await indexer!.getIndexStats();
+        const stats = await indexer.getIndexStats();
         expect(stats.itemCount).toBe(1);
       },
       { timeout: 30000 }
     );
 
+    test("rebuild does not duplicate incrementally indexed entries", async () => {
+      const timestamp = new Date().toISOString();
+      addJournalEntry(ctx, "deploys", "Rolled back the API after a bad deploy", new Date(timestamp));
+
+      await indexer.indexJournalEntry({
+        timestamp,
+        topic: "deploys",
+        content: "Rolled back the API after a bad deploy",
+      });
+      await indexer.rebuildIndex();
+
+      expect(await countItems("journal")).toBe(1);
+
+      const results = await indexer.searchMemory("rolled back deploy", { limit: 5, type: "journal" });
+      expect(results.length).toBe(1);
+      expect(results[0].source).toBe(`${timestamp.split("T")[0]}.jsonl`);
+    });
+
     test("indexed entries are searchable", async () => {
       const entry = {
         timestamp: new Date().toISOString(),
@@ -68,15 +100,183 @@ describe.skipIf(!embeddingsAvailable)("indexer", () => {
         content: "Made a delicious pasta carbonara with fresh eggs",
       };
 
-      await indexer!.indexJournalEntry(entry);
+      await indexer.indexJournalEntry(entry);
 
       // Search for related content
-      const results = await indexer!.searchMemory("italian food pasta", { limit: 5 });
+      const results = await indexer.searchMemory("italian food pasta", { limit: 5 });
       expect(results.length).toBeGreaterThan(0);
       expect(results[0].content).toContain("carbonara");
     });
   });
 
+  describe("journal id migration", () => {
+    test("rebuilds indexes with entries under legacy ids", async () => {
+      const timestamp = "2025-03-04T10:00:00.000Z";
+      const content = "[infra] Rotated the database credentials";
+      addJournalEntry(ctx, "infra", "Rotated the database credentials", new Date(timestamp));
+      const vector = Array.from({ length: 384 }, (_, i) => (i === 0 ? 1 : 0));
+
+      // Build an index the way older versions did: once from log_journal,
+      // once from a rebuild
+      writeVectraIndex([
+        {
+          id: `journal-${timestamp}`,
+          vector,
+          metadata: { type: "journal", content, source: "journal", timestamp },
+        },
+        {
+          id: "journal-2025-03-04.jsonl-0",
+          vector,
+          metadata: { type: "journal", content, source: "2025-03-04.jsonl", timestamp },
+        },
+      ]);
+
+      // Opening the old index starts a rebuild; this joins it
+      await indexer.getIndexStats();
+      await indexer.rebuildIndex();
+
+      expect(await countItems("journal")).toBe(1);
+
+      const results = await indexer.searchMemory("database credentials", { mode: "keyword" });
+      expect(results.length).toBe(1);
+      expect(results[0].source).toBe("2025-03-04.jsonl");
+    });
+  });
+
+  describe("index metadata", () => {
+    test("records the embedding model on creation", async () => {
+      await indexer.getIndexStats();
+
+      const store = openStore();
+      const meta = store.getMeta<Record<string, unknown>>("index")!;
+      store.close();
+      expect(meta.model).toBe("hash:384");
+      expect(meta.dimensions).toBe(384);
+      expect(meta.schemaVersion).toBe(1);
+      expect(meta.chunkingVersion).toBe(7);
+    });
+
+    test("rebuilds an index built with a different model", async () => {
+      addJournalEntry(ctx, "infra", "Moved the build cache to a bigger disk");
+
+      // Index on disk with vectors from some other model
+      const stale = openStore();
+      stale.upsert([
+        {
+          id: "journal-0000000000000000",
+          vector: [1, 0, 0],
+          metadata: { type: "journal", content: "[old] From another model", source: "old.jsonl" },
+          text: "[old] From another model",
+        },
+      ]);
+      stale.setMeta("index", {
+        schemaVersion: 1,
+        chunkingVersion: 1,
+        model: "openai:other@http://localhost",
+        dimensions: 3,
+        createdAt: "2025-01-01T00:00:00.000Z",
+      });
+      stale.close();
+
+      // Opening the index clears it and starts a rebuild; this joins it
+      await indexer.getIndexStats();
+      await indexer.rebuildIndex();
+
+      const results = await indexer.searchMemory("build cache", { mode: "keyword" });
+      expect(results.length).toBe(1);
+      expect(results[0].content).toContain("bigger disk");
+
+      const store = openStore();
+      const meta = store.getMeta<Record<string, unknown>>("index")!;
+      store.close();
+      expect(meta.model).toBe("hash:384");
+    });
+
+    test("migrates a Vectra index with its metadata", async () => {
+      addJournalEntry(ctx, "infra", "Moved the build cache to a bigger disk");
+
+      // Built with another model, so the migrated items get replaced
+      writeVectraIndex(
+        [
+          {
+            id: "journal-0000000000000000",
+            vector: [1, 0, 0],
+            metadata: { type: "journal", content: "[old] From another model", source: "old.jsonl" },
+          },
+        ],
+        { schemaVersion: 1, chunkingVersion: 3, model: "openai:other@http://localhost", dimensions: 3, createdAt: "2025-01-01T00:00:00.000Z" }
+      );
+
+      await indexer.getIndexStats();
+      await indexer.rebuildIndex();
+
+      expect(existsSync(join(ctx.indexDir, "vectors"))).toBe(false);
+      const results = await indexer.searchMemory("another model", { mode: "keyword" });
+      expect(results.every((r) => !r.content.includes("[old]"))).toBe(true);
+    });
+  });
+
+  describe("chunking", () => {
+    const words = (prefix: string, count: number) =>
+      Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(" ");
+
+    test("leaves short text whole", () => {
+      expect(indexer.chunkText("a short note", 10, 2)).toEqual(["a short note"]);
+    });
+
+    test("splits long text into overlapping windows", () => {
+      const chunks = indexer.chunkText(words("w", 25), 10, 3);
+      expect(chunks.length).toBe(4);
+      expect(chunks[0].split(" ")).toEqual(words("w", 10).split(" "));
+      // Each window starts three words before the previous one ended
+      expect(chunks[1].startsWith("w7 w8 w9 w10")).toBe(true);
+      expect(chunks.at(-1)!.endsWith("w24")).toBe(true);
+    });
+
+    test("makes the end of long sections searchable", async () => {
+      addEntityFile(
+        ctx,
+        "projects",
+        "atlas",
+        `# Atlas\n\n## History\n\n${words("filler", 400)} The migration finally shipped on a Thursday.`
+      );
+      await indexer.rebuildIndex();
+
+      const results = await indexer.searchMemory("migration shipped Thursday", { mode: "keyword" });
+      expect(results.length).toBe(1);
+      expect(results[0].section).toBe("History");
+      expect(results[0].content).toStartWith("## History");
+      expect(results[0].content).toContain("Thursday");
+    });
+
+    test("collapses hits from the same section", async () => {
+      addEntityFile(
+        ctx,
+        "projects",
+        "atlas",
+        `# Atlas\n\n## Notes\n\nkraken ${words("filler", 200)} kraken ${words("more", 200)} kraken`
+      );
+      await indexer.rebuildIndex();
+
+      const stats = await indexer.getIndexStats();
+      expect(stats.itemCount).toBeGreaterThan(2);
+
+      const results = await indexer.searchMemory("kraken", { mode: "keyword" });
+      expect(results.length).toBe(1);
+      expect(results[0].source).toBe("projects/atlas.md");
+    });
+
+    test("chunks long journal entries", async () => {
+      addJournalEntry(ctx, "research", `${words("note", 300)} Conclusion: use the sqlite backend.`);
+      await indexer.rebuildIndex();
+
+      const results = await indexer.searchMemory("sqlite backend conclusion", { mode: "keyword" });
+      expect(results.length).toBe(1);
+      expect(results[0].type).toBe("journal");
+      expect(results[0].content).toStartWith("[research] ");
+    });
+  });
+
   describe("rebuildIndex", () => {
     test("indexes journal files from disk", async () => {
       // Add some journal entries to disk
@@ -84,10 +284,20 @@ describe.skipIf(!embeddingsAvailable)("indexer", () => {
       addJournalEntry(ctx, "topic2", "Second journal entry about React");
       addJournalEntry(ctx, "topic3", "Third journal entry about testing");
 
-      const result = await indexer!.rebuildIndex();
+      const result = await indexer.rebuildIndex();
       expect(result.itemCount).toBeGreaterThanOrEqual(3);
     });
 
+    test("removes items whose files were deleted", async () => {
+      addEntityFile(ctx, "people", "erin", "# Erin\n\n## About\n\nTech lead.\n");
+      await indexer.rebuildIndex();
+      expect(await countItems("person")).toBe(2);
+
+      unlinkSync(join(ctx.entitiesDir, "people", "erin.md"));
+      await indexer.rebuildIndex();
+      expect(await countItems("person")).toBe(0);
+    });
+
     test("indexes entity files", async () => {
       // Add entity files
       addEntityFile(
@@ -122,7 +332,7 @@ In progress.
 `
       );
 
-      const result = await indexer!.rebuildIndex();
+      const result = await indexer.rebuildIndex();
       // Should have entity sections (2+ per file due to section splitting)
       expect(result.itemCount).toBeGreaterThanOrEqual(4);
     });
@@ -144,14 +354,79 @@ Loves systems programming and performance optimization.
 `
       );
 
-      await indexer!.rebuildIndex();
+      await indexer.rebuildIndex();
 
-      const results = await indexer!.searchMemory("systems programming rust", {
+      const results = await indexer.searchMemory("systems programming rust", {
         limit: 5,
       });
       expect(results.length).toBeGreaterThan(0);
       expect(results[0].type).toBe("person");
     });
+
+    test("indexes every entity category", async () => {
+      addEntityFile(
+        ctx,
+        "documents",
+        "runbook",
+        `# Runbook
+
+## Failover
+
+Promote the replica and update the DNS record.
+`
+      );
+
+      await indexer.rebuildIndex();
+
+      const results = await indexer.searchMemory("promote replica failover", {
+        type: "documents",
+        limit: 5,
+      });
+      expect(results.length).toBeGreaterThan(0);
+      expect(results[0].type).toBe("entity:documents");
+      expect(results[0].source).toBe("documents/runbook.md");
+    });
+
+    test("keeps entity categories apart from topic and state files of the same name", async () => {
+      addEntityFile(ctx, "state", "today", "# Today\n\n## Plan\n\nEntity note about the release checklist");
+      await indexer.rebuildIndex();
+      const stateItems = await countItems("state");
+      expect(stateItems).toBeGreaterThan(0);
+
+      const entities = await indexer.searchMemory("release checklist", { type: "state", mode: "keyword", limit: 10 });
+      expect(entities).toEqual([]);
+      const byCategory = await indexer.searchMemory("release checklist", { type: "entity:state", mode: "keyword", limit: 10 });
+      expect(byCategory.map((r) => r.content)).toEqual([expect.stringContaining("Entity note about the release checklist")]);
+
+      // Re-indexing or deleting the entity file leaves the state file's items alone
+      await indexer.indexEntityFile(join(ctx.entitiesDir, "state", "today.md"));
+      unlinkSync(join(ctx.entitiesDir, "state", "today.md"));
+      await indexer.indexEntityFile(join(ctx.entitiesDir, "state", "today.md"));
+      expect(await countItems("state")).toBe(stateItems);
+      expect(await countItems("entity:state")).toBe(0);
+    });
+
+    test("caches embeddings and prunes them for removed text", async () => {
+      addJournalEntry(ctx, "a", "Entry that stays");
+      addEntityFile(ctx, "people", "temp", "# Temp\n\nShort-lived person file");
+      await indexer.rebuildIndex();
+
+      const countCached = () => {
+        const db = new Database(join(ctx.indexDir, "embedding-cache.sqlite"), { readonly: true });
+        const { count } = db.query("SELECT COUNT(*) AS count FROM embeddings WHERE cache = 'memory'").get() as {
+          count: number;
+        };
+        db.close();
+        return count;
+      };
+      const before = countCached();
+      expect(before).toBeGreaterThanOrEqual(2);
+
+      unlinkSync(join(ctx.entitiesDir, "people", "temp.md"));
+      await indexer.rebuildIndex();
+
+      expect(countCached()).toBe(before - 1);
+    });
   });
 
   describe("searchMemory", () => {
@@ -159,14 +434,14 @@ Loves systems programming and performance optimization.
       addJournalEntry(ctx, "work", "Fixed a bug in the authentication system");
       addEntityFile(ctx, "projects", "auth", "# Auth\n\n## Description\n\nAuthentication service.");
 
-      await indexer!.rebuildIndex();
+      await indexer.rebuildIndex();
 
-      const journalOnly = await indexer!.searchMemory("authentication", {
+      const journalOnly = await indexer.searchMemory("authentication", {
         type: "journal",
         limit: 5,
       });
 
-      const projectOnly = await indexer!.searchMemory("authentication", {
+      const projectOnly = await indexer.searchMemory("authentication", {
         type: "project",
         limit: 5,
       });
@@ -187,9 +462,9 @@ Loves systems programming and performance optimization.
       addJournalEntry(ctx, "old", "Old entry from last year", oldDate);
       addJournalEntry(ctx, "new", "New entry from this year", newDate);
 
-      await indexer!.rebuildIndex();
+      await indexer.rebuildIndex();
 
-      const results = await indexer!.searchMemory("entry", {
+      const results = await indexer.searchMemory("entry", {
         since: "2025-01-01",
         limit: 10,
       });
@@ -202,12 +477,412 @@ Loves systems programming and performance optimization.
       }
     });
 
+    test("applies filters before the top-k cut", async () => {
+      for (let i = 0; i < 20; i++) {
+        addJournalEntry(ctx, "deploys", `Deploy ${i} of the billing service went out`);
+      }
+      addEntityFile(ctx, "projects", "billing", "# Billing\n\n## Deploys\n\nThe billing service deploys on Fridays.\n");
+      addEntityFile(ctx, "projects", "ledger", "# Ledger\n\n## Deploys\n\nThe ledger deploys after billing.\n");
+
+      await indexer.rebuildIndex();
+
+      for (const mode of ["semantic", "keyword", "hybrid"] as const) {
+        const results = await indexer.searchMemory("billing service deploy", { type: "project", limit: 2, mode });
+        expect(results.length).toBe(2);
+        expect(results.every((r) => r.type === "project")).toBe(true);
+      }
+    });
+
+    test("filters journal entries by topic, source and intent", async () => {
+      const journalPath = join(ctx.journalDir, "2025-06-01.jsonl");
+      const entries = [
+        { topic: "deploys", content: "Shipped the cache fix", metadata: { source: "conversation", intent: "Fixing the cache" } },
+        { topic: "incidents", content: "Cache outage in eu-west", metadata: { source: "cron", intent: "Morning check" } },
+        { topic: "reading", content: "Read about cache eviction", metadata: { source: "conversation" } },
+      ];
+      writeFileSync(
+        journalPath,
+        entries.map((e, i) => JSON.stringify({ timestamp: `2025-06-01T0${i}:00:00.000Z`, ...e })).join("\n") + "\n"
+      );
+
+      await indexer.rebuildIndex();
+
+      const byTopic = await indexer.searchMemory("cache", { topic: ["deploys", "incidents"], limit: 10 });
+      expect(byTopic.map((r) => r.content).sort()).toEqual([
+        "[deploys] Shipped the cache fix",
+        "[incidents] Cache outage in eu-west",
+      ]);
+
+      const bySource = await indexer.searchMemory("cache", { entrySource: "cron", limit: 10 });
+      expect(bySource.map((r) => r.content)).toEqual(["[incidents] Cache outage in eu-west"]);
+
+      const byIntent = await indexer.searchMemory("cache", { intent: "fixing", limit: 10 });
+      expect(byIntent.map((r) => r.content)).toEqual(["[deploys] Shipped the cache fix"]);
+    });
+
+    test("filters journal entries by tags, entity, project and importance", async () => {
+      const journalPath = join(ctx.journalDir, "2025-06-01.jsonl");
+      const entries = [
+        {
+          topic: "decisions",
+          content: "Chose Postgres for the billing cache",
+          metadata: { tags: ["decision", "Database"], entities: ["projects/billing.md"], importance: 5, project: "billing" },
+        },
+        {
+          topic: "decisions",
+          content: "Chose a blue theme for the billing cache dashboard",
+          metadata: { tags: ["decision"], importance: 2, project: "billing" },
+        },
+        {
+          topic: "notes",
+          content: "Alice prefers Redis for the search cache",
+          metadata: { entities: ["people/alice.md"], importance: 4, project: "search" },
+        },
+      ];
+      writeFileSync(
+        journalPath,
+        entries.map((e, i) => JSON.stringify({ timestamp: `2025-06-01T0${i}:00:00.000Z`, ...e })).join("\n") + "\n"
+      );
+
+      await indexer.rebuildIndex();
+
+      const important = await indexer.searchMemory("cache", { project: "Billing", minImportance: 4, limit: 10 });
+      expect(important.map((r) => r.content)).toEqual(["[decisions] Chose Postgres for the billing cache"]);
+
+      const byTag = await indexer.searchMemory("cache", { tags: ["database", "unused"], limit: 10 });
+      expect(byTag.map((r) => r.content)).toEqual(["[decisions] Chose Postgres for the billing cache"]);
+
+      const byEntity = await indexer.searchMemory("cache", { entity: "people/alice", limit: 10 });
+      expect(byEntity.map((r) => r.content)).toEqual(["[notes] Alice prefers Redis for the search cache"]);
+
+      expect((await indexer.verifyIndex()).outdated).toEqual([]);
+    });
+
+    test("boosts or scopes to entries from the current project", async () => {
+      const journalPath = join(ctx.journalDir, "2025-06-01.jsonl");
+      const entries = [
+        { topic: "notes", content: "Flaky login test fixed by waiting for the session cookie", metadata: { projectPath: "/work/web" } },
+        { topic: "notes", content: "Flaky login test fixed by retrying", metadata: { projectPath: "/work/api", branch: "main" } },
+      ];
+      writeFileSync(
+        journalPath,
+        entries.map((e, i) => JSON.stringify({ timestamp: `2025-06-01T0${i}:00:00.000Z`, ...e })).join("\n") + "\n"
+      );
+
+      await indexer.rebuildIndex();
+
+      const boosted = await indexer.searchMemory("flaky login test fixed", { currentProject: "/work/api", explain: true, limit: 10 });
+      expect(boosted[0].content).toBe("[notes] Flaky login test fixed by retrying");
+      expect(boosted[0].explain?.projectBoost).toBeGreaterThan(1);
+      expect(boosted[1].explain?.projectBoost).toBe(1);
+
+      const scoped = await indexer.searchMemory("flaky login test", { projectPath: "/work/web", limit: 10 });
+      expect(scoped.map((r) => r.content)).toEqual(["[notes] Flaky login test fixed by waiting for the session cookie"]);
+    });
+
+    test("filters by file path", async () => {
+      addEntityFile(ctx, "people", "alice", "# Alice\n\n## Role\n\nOwns the search cluster.\n");
+      addEntityFile(ctx, "projects", "search", "# Search\n\n## Goals\n\nMove the search cluster.\n");
+
+      await indexer.rebuildIndex();
+
+      for (const path of ["people/alice.md", "people/alice", "people", "people/"]) {
+        const results = await indexer.searchMemory("search cluster", { path, limit: 10 });
+        expect(results.length).toBeGreaterThan(0);
+        expect(results.every((r) => r.source === "people/alice.md")).toBe(true);
+      }
+    });
+
+    test("filters by date range, including relative dates", async () => {
+      addJournalEntry(ctx, "notes", "Planning notes from January", new Date("2025-01-15T10:00:00.000Z"));
+      addJournalEntry(ctx, "notes", "Planning notes from the end of January", new Date("2025-01-31T22:00:00.000Z"));
+      addJournalEntry(ctx, "notes", "Planning notes from March", new Date("2025-03-10T10:00:00.000Z"));
+      addJournalEntry(ctx, "notes", "Planning notes from today");
+
+      await indexer.rebuildIndex();
+
+      const january = await indexer.searchMemory("planning notes", {
+        type: "journal",
+        since: "2025-01-01",
+        until: "2025-01-31",
+        limit: 10,
+      });
+      expect(january.map((r) => r.content).sort()).toEqual([
+        "[notes] Planning notes from January",
+        "[notes] Planning notes from the end of January",
+      ]);
+
+      const recent = await indexer.searchMemory("planning notes", { type: "journal", since: "last week", limit: 10 });
+      expect(recent.map((r) => r.content)).toEqual(["[notes] Planning notes from today"]);
+
+      expect(indexer.searchMemory("planning", { since: "next tuesday" })).rejects.toThrow("Unrecognised date");
+    });
+
+    test("explains scores when asked", async () => {
+      addJournalEntry(ctx, "debugging", "Deploys were slow all week. Upload failed with ERR_STREAM_PREMATURE_CLOSE after retry.");
+      addJournalEntry(ctx, "planning", "Roadmap review for the upload service");
+
+      await indexer.rebuildIndex();
+
+      const [plain] = await indexer.searchMemory("ERR_STREAM_PREMATURE_CLOSE upload", { limit: 1 });
+      expect(plain.explain).toBeUndefined();
+
+      const [result] = await indexer.searchMemory("ERR_STREAM_PREMATURE_CLOSE upload", { limit: 1, explain: true });
+      expect(result.explain!.mode).toBe("hybrid");
+      expect(result.explain!.keywordRank).toBe(1);
+      expect(result.explain!.keywordScore).toBeGreaterThan(0);
+      expect(result.explain!.vectorRank).toBeGreaterThan(0);
+      expect(result.explain!.similarity).toBeGreaterThan(0);
+      expect(result.explain!.highlight).toBe("**Upload** failed with **ERR_STREAM_PREMATURE_CLOSE** after retry.");
+
+      const [semantic] = await indexer.searchMemory("upload", { limit: 1, mode: "semantic", explain: true });
+      expect(semantic.explain!.keywordScore).toBeUndefined();
+    });
+
+    test("search everything says how to expand memory hits", async () => {
+      addJournalEntry(ctx, "debugging", "Upload failed with ERR_STREAM_PREMATURE_CLOSE after retry");
+      addEntityFile(ctx, "projects", "uploader", "# Uploader\n\n## Status\n\nRetries uploads after ERR_STREAM_PREMATURE_CLOSE");
+
+      await indexer.rebuildIndex();
+
+      const { searchEverything } = await import("../src/search-everything");
+      const { hits: results } = await searchEverything("ERR_STREAM_PREMATURE_CLOSE", { limit: 5 });
+
+      expect(results.every((r) => r.origin === "memory")).toBe(true);
+      const project = results.find((r) => r.title === "project / Status");
+      expect(project?.expand).toMatchObject({ path: join(ctx.entitiesDir, "projects", "uploader.md"), section: "Status" });
+      const journal = results.find((r) => r.title === "journal");
+      expect(journal?.expand).toMatchObject({ path: expect.stringMatching(/journal\/\d{4}-\d{2}-\d{2}\.jsonl$/) });
+    });
+
+    test("search everything skips an index that can't be searched", async () => {
+      addJournalEntry(ctx, "debugging", "Upload failed with ERR_STREAM_PREMATURE_CLOSE after retry");
+      await indexer.rebuildIndex();
+      mkdirSync(join(ctx.indexDir, "oc-conversations.sqlite"));
+
+      const { searchEverything } = await import("../src/search-everything");
+      const { hits, skipped } = await searchEverything("ERR_STREAM_PREMATURE_CLOSE", { limit: 5 });
+
+      expect(hits.some((r) => r.origin === "memory")).toBe(true);
+      expect(skipped.map((s) => s.origin)).toEqual(["opencode"]);
+    });
+
+    test("diversity pushes down near-duplicate entries", async () => {
+      addJournalEntry(ctx, "deploy", "Deploy of the billing service failed on the migration step");
+      addJournalEntry(ctx, "deploy", "Deploy of the billing service failed on the migration step again");
+      addJournalEntry(ctx, "deploy", "Deploy of the billing service failed on the migration step a third time");
+      addJournalEntry(ctx, "billing", "Billing invoices now group by customer account");
+
+      await indexer.rebuildIndex();
+
+      const plain = await indexer.searchMemory("billing service deploy", { limit: 2, mode: "semantic", diversity: 0 });
+      expect(plain.every((r) => r.content.includes("failed on the migration"))).toBe(true);
+
+      const diverse = await indexer.searchMemory("billing service deploy", { limit: 2, mode: "semantic", diversity: 0.7 });
+      expect(diverse[0].content).toContain("failed on the migration");
+      expect(diverse[1].content).toContain("group by customer");
+    });
+
+    test("keyword mode finds exact identifiers", async () => {
+      addJournalEntry(ctx, "debugging", "Upload failed with ERR_STREAM_PREMATURE_CLOSE after retry");
+      addJournalEntry(ctx, "debugging", "Uploads are flaky on slow connections");
+      addJournalEntry(ctx, "planning", "Roadmap review for the upload service");
+
+      await indexer.rebuildIndex();
+
+      const results = await indexer.searchMemory("ERR_STREAM_PREMATURE_CLOSE", {
+        mode: "keyword",
+        limit: 5,
+      });
+
+      expect(results.length).toBe(1);
+      expect(results[0].content).toContain("ERR_STREAM_PREMATURE_CLOSE");
+    });
+
+    test("hybrid mode ranks exact matches first", async () => {
+      addJournalEntry(ctx, "debugging", "Ticket PROJ-4821: login redirect loop on Safari");
+      addJournalEntry(ctx, "debugging", "Login page styling tweaks");
+      addJournalEntry(ctx, "debugging", "Redirects after login are slow");
+
+      await indexer.rebuildIndex();
+
+      const results = await indexer.searchMemory("PROJ-4821", {
+        mode: "hybrid",
+        limit: 3,
+      });
+
+      expect(results.length).toBeGreaterThan(0);
+      expect(results[0].content).toContain("PROJ-4821");
+    });
+
     test("returns empty array for empty index", async () => {
-      const results = await indexer!.searchMemory("anything", { limit: 5 });
+      const results = await indexer.searchMemory("anything", { limit: 5 });
       expect(results).toEqual([]);
     });
   });
 
+  describe("state and topic files", () => {
+    test("indexes state files section by section", async () => {
+      await indexer.rebuildIndex();
+
+      const results = await indexer.searchMemory("integration tests", { type: "state", mode: "keyword" });
+      expect(results.length).toBeGreaterThan(0);
+      expect(results[0].source).toBe("state/today.md");
+      expect(results[0].section).toBe("Now");
+      expect(results[0].id).toBe("state-today-1");
+    });
+
+    test("indexes topic files section by section", async () => {
+      mkdirSync(join(ctx.root, "topics"), { recursive: true });
+      writeFileSync(
+        join(ctx.root, "topics", "deploys.md"),
+        "# Deploys\n\n## Rollbacks\n\nUse the blue-green switch.\n\n## Freezes\n\nNo deploys on Fridays.\n"
+      );
+      await indexer.rebuildIndex();
+
+      const results = await indexer.searchMemory("Fridays", { type: "topic", mode: "keyword" });
+      expect(results.length).toBe(1);
+      expect(results[0].source).toBe("topics/deploys.md");
+      expect(results[0].section).toBe("Freezes");
+    });
+
+    test("indexMemoryFile reindexes changed state and topic files", async () => {
+      await indexer.rebuildIndex();
+
+      const todayPath = join(ctx.stateDir, "today.md");
+      writeFileSync(todayPath, "# Today\n\n## Now\n\nReviewing the quarterly roadmap.\n");
+      await indexer.indexMemoryFile(todayPath);
+
+      expect(await indexer.searchMemory("quarterly roadmap", { type: "state", mode: "keyword" })).toHaveLength(1);
+      expect(await indexer.searchMemory("running", { type: "state", mode: "keyword" })).toHaveLength(0);
+
+      mkdirSync(join(ctx.root, "topics"), { recursive: true });
+      const topicPath = join(ctx.root, "topics", "testing.md");
+      writeFileSync(topicPath, "# Testing\n\nSnapshot tests need review.\n");
+      await indexer.indexMemoryFile(topicPath);
+      expect(await indexer.searchMemory("snapshot", { type: "topic", mode: "keyword" })).toHaveLength(1);
+
+      unlinkSync(topicPath);
+      await indexer.indexMemoryFile(topicPath);
+      expect(await indexer.searchMemory("snapshot", { type: "topic", mode: "keyword" })).toHaveLength(0);
+    });
+  });
+
+  describe("getRelated", () => {
+    test("search results carry ids that getRelated accepts", async () => {
+      addJournalEntry(ctx, "infra", "Upgraded the staging cluster");
+      await indexer.rebuildIndex();
+
+      const [result] = await indexer.searchMemory("staging cluster", { mode: "keyword" });
+      const related = await indexer.getRelated(result.id);
+      expect(related).not.toBeNull();
+      expect(related!.item.content).toContain("staging cluster");
+    });
+
+    test("returns null for unknown ids", async () => {
+      await indexer.getIndexStats();
+      expect(await indexer.getRelated("journal-missing")).toBeNull();
+    });
+
+    test("finds entities sharing mentions", async () => {
+      addEntityFile(ctx, "people", "alice", "# Alice\n\nWorks on the atlas project.");
+      addEntityFile(ctx, "projects", "atlas", "# Atlas\n\nData pipeline rewrite.");
+      addEntityFile(ctx, "projects", "orion", "# Orion\n\nAlice reviews the Atlas schema too.");
+      addEntityFile(ctx, "projects", "vega", "# Vega\n\nUnrelated side project.");
+      await indexer.rebuildIndex();
+
+      const related = await indexer.getRelated("person-alice-preamble");
+      const linked = related!.linked.map((r) => r.source);
+      expect(linked).toContain("projects/atlas.md");
+      expect(linked).toContain("projects/orion.md");
+      expect(linked).not.toContain("projects/vega.md");
+      expect(linked).not.toContain("people/alice.md");
+
+      const orion = related!.linked.find((r) => r.source === "projects/orion.md");
+      expect(orion!.reason).toBe("mentions alice");
+    });
+
+    test("finds journal entries from the same day or topic", async () => {
+      const day = new Date("2025-06-01T09:00:00.000Z");
+      addJournalEntry(ctx, "deploys", "Rolled out the new cache layer", day);
+      addJournalEntry(ctx, "lunch", "Tried the new ramen place", new Date("2025-06-01T12:00:00.000Z"));
+      addJournalEntry(ctx, "deploys", "Rolled back the cache layer", new Date("2025-06-03T09:00:00.000Z"));
+      addJournalEntry(ctx, "reading", "Finished a book on compilers", new Date("2025-06-05T09:00:00.000Z"));
+      await indexer.rebuildIndex();
+
+      const id = indexer.getJournalEntryId({
+        timestamp: day.toISOString(),
+        topic: "deploys",
+        content: "Rolled out the new cache layer",
+      });
+      const related = await indexer.getRelated(id);
+      const reasons = Object.fromEntries(related!.journal.map((r) => [r.content, r.reason]));
+
+      expect(reasons["[lunch] Tried the new ramen place"]).toBe("same day");
+      expect(reasons["[deploys] Rolled back the cache layer"]).toBe("same topic (deploys)");
+      expect(reasons["[reading] Finished a book on compilers"]).toBeUndefined();
+      expect(related!.similar.map((r) => r.id)).not.toContain(id);
+    });
+  });
+
+  describe("verify and repair", () => {
+    test("reports an index built from the current files as consistent", async () => {
+      addJournalEntry(ctx, "infra", "Moved the build cache to a bigger disk");
+      addEntityFile(ctx, "people", "erin", "# Erin\n\n## Role\n\nRuns the on-call rota.\n");
+      await indexer.rebuildIndex();
+
+      const report = await indexer.verifyIndex();
+      expect(report.orphaned).toEqual([]);
+      expect(report.missing).toEqual([]);
+      expect(report.outdated).toEqual([]);
+      expect(report.duplicates).toEqual([]);
+    });
+
+    test("finds and repairs drift from the files", async () => {
+      const date = new Date("2025-05-06T09:00:00.000Z");
+      addJournalEntry(ctx, "infra", "Moved the build cache to a bigger disk", date);
+      addJournalEntry(ctx, "infra", "Rotated the staging certificates", date);
+      addEntityFile(ctx, "people", "erin", "# Erin\n\n## Role\n\nRuns the on-call rota.\n");
+      await indexer.rebuildIndex();
+
+      // Drop a journal line, edit a section and add a file behind the index's back
+      const journalPath = join(ctx.journalDir, "2025-05-06.jsonl");
+      const [kept] = readFileSync(journalPath, "utf-8").trim().split("\n");
+      writeFileSync(journalPath, kept + "\n");
+      addEntityFile(ctx, "people", "erin", "# Erin\n\n## Role\n\nManages the platform team.\n");
+      addEntityFile(ctx, "projects", "atlas", "# Atlas\n\nReplace the legacy search cluster.\n");
+
+      const report = await indexer.verifyIndex();
+      expect(report.orphaned.map((i) => i.source)).toEqual(["2025-05-06.jsonl"]);
+      expect(report.outdated.map((i) => i.section)).toEqual(["Role"]);
+      expect(report.missing.map((i) => i.source)).toEqual(["projects/atlas.md"]);
+
+      const repaired = await indexer.repairIndex();
+      expect(repaired.orphaned.length).toBe(1);
+
+      const after = await indexer.verifyIndex();
+      expect(after.orphaned).toEqual([]);
+      expect(after.missing).toEqual([]);
+      expect(after.outdated).toEqual([]);
+
+      const results = await indexer.searchMemory("platform team", { mode: "keyword" });
+      expect(results[0].source).toBe("people/erin.md");
+      expect(await indexer.searchMemory("staging certificates", { mode: "keyword" })).toEqual([]);
+    });
+
+    test("reports repeated journal lines as duplicate ids", async () => {
+      const date = new Date("2025-05-06T09:00:00.000Z");
+      addJournalEntry(ctx, "infra", "Rotated the staging certificates", date);
+      addJournalEntry(ctx, "infra", "Rotated the staging certificates", date);
+      await indexer.rebuildIndex();
+
+      const report = await indexer.verifyIndex();
+      expect(report.duplicates.length).toBe(1);
+      expect(report.missing).toEqual([]);
+      expect(await countItems("journal")).toBe(1);
+    });
+  });
+
   describe("indexEntityFile", () => {
     test("indexes a single entity file", async () => {
       const filePath = join(ctx.entitiesDir, "people", "charlie.md");
@@ -227,13 +902,323 @@ Kubernetes, Docker, CI/CD pipelines.
 `
       );
 
-      await indexer!.indexEntityFile(filePath);
+      await indexer.indexEntityFile(filePath);
 
-      const stats = await indexer!.getIndexStats();
+      const stats = await indexer.getIndexStats();
       expect(stats.itemCount).toBeGreaterThan(0);
 
-      const results = await indexer!.searchMemory("kubernetes docker", { limit: 5 });
+      const results = await indexer.searchMemory("kubernetes docker", { limit: 5 });
       expect(results.length).toBeGreaterThan(0);
     });
+
+    test("deleted entity files become unsearchable", async () => {
+      const filePath = join(ctx.entitiesDir, "people", "dana.md");
+      addEntityFile(
+        ctx,
+        "people",
+        "dana",
+        `# Dana
+
+## Role
+
+Maintains the billing reconciliation pipeline.
+`
+      );
+
+      await indexer.indexEntityFile(filePath);
+      let results = await indexer.searchMemory("billing reconciliation", { limit: 5 });
+      expect(results.some((r) => r.source === "people/dana.md")).toBe(true);
+
+      unlinkSync(filePath);
+      await indexer.indexEntityFile(filePath);
+
+      results = await indexer.searchMemory("billing reconciliation", { limit: 5 });
+      expect(results.some((r) => r.source === "people/dana.md")).toBe(false);
+      expect((await indexer.getIndexStats()).itemCount).toBe(0);
+    });
+
+    test("removes sections that no longer exist", async () => {
+      const filePath = join(ctx.entitiesDir, "projects", "atlas.md");
+      addEntityFile(
+        ctx,
+        "projects",
+        "atlas",
+        `# Atlas
+
+## Goals
+
+Replace the legacy search cluster.
+
+## Risks
+
+Index migration may take a weekend of downtime.
+`
+      );
+
+      await indexer.indexEntityFile(filePath);
+      expect((await indexer.getIndexStats()).itemCount).toBe(3);
+
+      addEntityFile(ctx, "projects", "atlas", "# Atlas\n\n## Goals\n\nReplace the legacy search cluster.\n");
+      await indexer.indexEntityFile(filePath);
+
+      expect((await indexer.getIndexStats()).itemCount).toBe(2);
+      const results = await indexer.searchMemory("downtime migration weekend", { limit: 5 });
+      expect(results.some((r) => r.section === "Risks")).toBe(false);
+    });
+
+    test("indexes files in new categories", async () => {
+      const filePath = join(ctx.entitiesDir, "topics", "caching.md");
+      addEntityFile(
+        ctx,
+        "topics",
+        "caching",
+        `# Caching
+
+## Strategy
+
+Stale-while-revalidate at the edge.
+`
+      );
+
+      await indexer.indexEntityFile(filePath);
+
+      const results = await indexer.searchMemory("stale-while-revalidate", { type: "topics", limit: 5 });
+      expect(results.length).toBeGreaterThan(0);
+      expect(results[0].source).toBe("topics/caching.md");
+    });
+  });
+
+  describe("duplicates", () => {
+    const observation = "The staging deploy failed because the database migration timed out";
+    const restated = "The staging deploy failed because the database migration timed out again";
+
+    test("indexJournalEntry returns recent near-duplicates", async () => {
+      const first = { timestamp: new Date(Date.now() - 60_000).toISOString(), topic: "deploys", content: observation };
+      expect(await indexer.indexJournalEntry(first)).toEqual([]);
+
+      const duplicates = await indexer.indexJournalEntry({
+        timestamp: new Date().toISOString(),
+        topic: "deploys",
+        content: restated,
+      });
+      expect(duplicates.map((d) => d.id)).toEqual([indexer.getJournalEntryId(first)]);
+      expect(duplicates[0].similarity).toBeGreaterThanOrEqual(0.9);
+
+      const unrelated = await indexer.indexJournalEntry({
+        timestamp: new Date().toISOString(),
+        topic: "garden",
+        content: "Planted tomatoes and basil along the fence",
+      });
+      expect(unrelated).toEqual([]);
+    });
+
+    test("groups near-duplicate entries into clusters", async () => {
+      addJournalEntry(ctx, "deploys", observation, new Date(Date.now() - 2 * 24 * 60 * 60 * 1000));
+      addJournalEntry(ctx, "deploys", restated, new Date(Date.now() - 24 * 60 * 60 * 1000));
+      addJournalEntry(ctx, "garden", "Planted tomatoes and basil along the fence");
+      addJournalEntry(ctx, "deploys", observation, new Date("2020-01-01T09:00:00.000Z"));
+      await indexer.rebuildIndex();
+
+      const clusters = await indexer.findDuplicateClusters({ since: "1m" });
+      expect(clusters.length).toBe(1);
+      expect(clusters[0].entries.map((e) => e.content)).toEqual([`[deploys] ${observation}`, `[deploys] ${restated}`]);
+      expect(clusters[0].minSimilarity).toBeGreaterThanOrEqual(0.9);
+
+      const [older] = await indexer.findDuplicateClusters({ since: "2019-12-01" });
+      expect(older.entries.length).toBe(3);
+    });
+
+    test("finds near-duplicate entries long enough to be chunked", async () => {
+      const long = Array.from({ length: 40 }, (_, i) => `Step ${i} of the migration runbook checks replica lag.`).join(" ");
+      addJournalEntry(ctx, "runbooks", long, new Date(Date.now() - 2 * 24 * 60 * 60 * 1000));
+      addJournalEntry(ctx, "runbooks", `${long} Then page the on-call.`, new Date(Date.now() - 24 * 60 * 60 * 1000));
+      await indexer.rebuildIndex();
+
+      const clusters = await indexer.findDuplicateClusters({ since: "1m" });
+      expect(clusters.length).toBe(1);
+      expect(clusters[0].entries.length).toBe(2);
+      expect(new Set(clusters[0].entries.map((e) => e.id)).size).toBe(2);
+    });
+  });
+
+  describe("clusterMemory", () => {
+    test("groups recent entries by theme with the files they relate to", async () => {
+      const day = 24 * 60 * 60 * 1000;
+      addJournalEntry(ctx, "billing", "Invoice ledger export failed during the billing migration", new Date(Date.now() - day));
+      addJournalEntry(ctx, "billing", "Billing migration moved invoice ledger to postgres", new Date(Date.now() - 2 * day));
+      addJournalEntry(ctx, "garden", "Planted tomatoes and basil in the garden beds", new Date(Date.now() - day));
+      addJournalEntry(ctx, "garden", "Watered the garden tomatoes and basil", new Date(Date.now() - 3 * day));
+      addJournalEntry(ctx, "billing", "Billing migration kickoff", new Date("2020-01-01T09:00:00.000Z"));
+      addEntityFile(ctx, "projects", "billing", "# Billing\n\n## Migration\n\nMoving the invoice ledger to postgres during the billing migration");
+      await indexer.rebuildIndex();
+
+      const clusters = await indexer.clusterMemory({ since: "1w", clusters: 2 });
+      expect(clusters.length).toBe(2);
+
+      const billing = clusters.find((c) => c.topics[0].topic === "billing")!;
+      expect(billing.topics).toEqual([{ topic: "billing", count: 2 }]);
+      expect(billing.files).toEqual(["projects/billing.md"]);
+      expect(billing.representatives.every((r) => r.content.startsWith("[billing]"))).toBe(true);
+      expect(billing.from < billing.to).toBe(true);
+
+      const garden = clusters.find((c) => c.topics[0].topic === "garden")!;
+      expect(garden.entryCount).toBe(2);
+      expect(garden.files).toEqual([]);
+    });
+
+    test("returns nothing without journal entries in the period", async () => {
+      addJournalEntry(ctx, "billing", "Billing migration kickoff", new Date("2020-01-01T09:00:00.000Z"));
+      await indexer.rebuildIndex();
+
+      expect(await indexer.clusterMemory({ since: "1w" })).toEqual([]);
+    });
+  });
+
+  describe("journal edits", () => {
+    const day = new Date("2025-06-01T09:00:00.000Z");
+    const journalPath = () => join(ctx.journalDir, "2025-06-01.jsonl");
+    const readJournal = () =>
+      readFileSync(journalPath(), "utf-8")
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+    const entryId = (topic: string, content: string) =>
+      indexer.getJournalEntryId({ timestamp: day.toISOString(), topic, content });
+
+    beforeEach(async () => {
+      addJournalEntry(ctx, "deploys", "Rolled back the API after a bad deploy", day);
+      addJournalEntry(ctx, "credentials", "The staging password is hunter2", day);
+      await indexer.rebuildIndex();
+    });
+
+    test("updates an entry in place, keeping its id", async () => {
+      const edits = await import("../src/journal-edit");
+      const id = entryId("deploys", "Rolled back the API after a bad deploy");
+
+      const updated = await edits.updateJournalEntry(id, { content: "Rolled back the API after a failed migration" });
+      expect(updated!.id).toBe(id);
+
+      const lines = readJournal();
+      expect(lines.length).toBe(2);
+      expect(lines[0]).toMatchObject({ id, topic: "deploys", content: "Rolled back the API after a failed migration" });
+
+      const results = await indexer.searchMemory("failed migration", { limit: 5, type: "journal" });
+      expect(results[0].id).toBe(id);
+      expect(results[0].content).toBe("[deploys] Rolled back the API after a failed migration");
+
+      // Still addressable by the same id after a rebuild
+      await indexer.rebuildIndex();
+      expect(await edits.updateJournalEntry(id, { topic: "incidents" })).not.toBeNull();
+      expect(await countItems("journal")).toBe(2);
+    });
+
+    test("deletes an entry from the file and the index", async () => {
+      const edits = await import("../src/journal-edit");
+      const id = entryId("deploys", "Rolled back the API after a bad deploy");
+
+      expect(await edits.deleteJournalEntry(id, "wrong project")).toBe(true);
+      expect(readJournal().map((e) => e.topic)).toEqual(["credentials"]);
+      expect(await countItems("journal")).toBe(1);
+      expect((await indexer.verifyIndex()).orphaned).toEqual([]);
+
+      expect(edits.loadTombstones()).toEqual([
+        expect.objectContaining({ id, action: "delete", file: "2025-06-01.jsonl", topic: "deploys", reason: "wrong project" }),
+      ]);
+      expect(await edits.deleteJournalEntry(id)).toBe(false);
+    });
+
+    test("finds entries that aren't indexed", async () => {
+      const edits = await import("../src/journal-edit");
+      const logged = new Date("2025-06-02T09:00:00.000Z");
+      addJournalEntry(ctx, "deploys", "Logged while the indexer was down", logged);
+      const id = indexer.getJournalEntryId({ timestamp: logged.toISOString(), topic: "deploys", content: "Logged while the indexer was down" });
+
+      expect(await edits.deleteJournalEntry(id)).toBe(true);
+      expect(readFileSync(join(ctx.journalDir, "2025-06-02.jsonl"), "utf-8")).toBe("");
+    });
+
+    test("redacts text from the file and the index", async () => {
+      const edits = await import("../src/journal-edit");
+      const id = entryId("credentials", "The staging password is hunter2");
+
+      expect(edits.redactJournalEntry(id, { text: "swordfish" })).rejects.toThrow("not found");
+      expect(edits.loadTombstones()).toEqual([]);
+
+      const redacted = await edits.redactJournalEntry(id, { text: "hunter2" });
+      expect(redacted!.content).toBe("The staging password is [redacted]");
+      expect(readFileSync(journalPath(), "utf-8")).not.toContain("hunter2");
+      expect(await indexer.searchMemory("hunter2", { mode: "keyword" })).toEqual([]);
+
+      const [tombstone] = edits.loadTombstones();
+      expect(tombstone.action).toBe("redact");
+      expect(JSON.stringify(tombstone)).not.toContain("hunter2");
+
+      // No copy left in the index databases, their write-ahead logs or the embedding cache
+      const { hashText, getCachedEmbeddings } = await import("../src/embedding-cache");
+      expect(getCachedEmbeddings("memory", "hash:384", [hashText("[credentials] The staging password is hunter2")])).toEqual([
+        undefined,
+      ]);
+      for (const file of readdirSync(ctx.indexDir).filter((f) => f.endsWith(".sqlite") || f.endsWith("-wal"))) {
+        expect(readFileSync(join(ctx.indexDir, file)).includes("hunter2")).toBe(false);
+      }
+    });
+  });
+
+  describe("watches", () => {
+    test("reports memory that arrives after the watch is added, once", async () => {
+      addJournalEntry(ctx, "billing", "Billing migration kickoff: move invoices to the new ledger");
+      await indexer.rebuildIndex();
+
+      const watches = await import("../src/watches");
+      watches.addWatch({
+        id: "billing",
+        query: "billing migration ledger",
+        threshold: 0.3,
+        createdAt: new Date().toISOString(),
+      });
+      expect(await watches.checkWatches()).toEqual([]);
+
+      await indexer.indexJournalEntry({
+        timestamp: new Date().toISOString(),
+        topic: "billing",
+        content: "Billing migration blocked on ledger export",
+      });
+      await indexer.indexJournalEntry({
+        timestamp: new Date().toISOString(),
+        topic: "garden",
+        content: "Planted tomatoes",
+      });
+
+      const matches = await watches.checkWatches();
+      expect(matches.map((m) => m.hit.content)).toEqual(["[billing] Billing migration blocked on ledger export"]);
+      expect(watches.formatWatchMatch(matches[0])).toStartWith(
+        `<macrodata-update type="watch-match" watch="billing" origin="memory"`
+      );
+      expect(await watches.checkWatches()).toEqual([]);
+
+      expect(watches.removeWatch("billing")).toBe(true);
+      expect(watches.loadWatches()).toEqual([]);
+    });
+
+    test("reports a new match that older matches outrank", async () => {
+      for (let i = 0; i < 25; i++) {
+        addJournalEntry(ctx, "billing", `Billing migration ledger notes, billing migration ledger day ${i}`);
+      }
+      await indexer.rebuildIndex();
+
+      const watches = await import("../src/watches");
+      watches.addWatch({ id: "billing", query: "billing migration ledger", threshold: 0.2, createdAt: new Date().toISOString() });
+
+      await indexer.indexJournalEntry({
+        timestamp: new Date().toISOString(),
+        topic: "finance",
+        content: "Ledger export for the billing migration is blocked on a missing API key",
+      });
+
+      const matches = await watches.checkWatches();
+      expect(matches.map((m) => m.hit.content)).toEqual([
+        "[finance] Ledger export for the billing migration is blocked on a missing API key",
+      ]);
+    });
   });
 });
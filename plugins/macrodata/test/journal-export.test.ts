@@ -0,0 +1,171 @@
+/**
+ * Tests for exporting the journal to Markdown daily notes
+ *
+ * Reads and writes files only - no embeddings required
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import { exportJournal, exportJournalFile, renderDailyNote } from "../src/journal-export";
+import { createTestContext, type TestContext } from "./helpers";
+
+function writeDay(ctx: TestContext, day: string, entries: Array<Record<string, unknown>>) {
+  writeFileSync(
+    join(ctx.journalDir, `${day}.jsonl`),
+    entries.map((e) => JSON.stringify(e)).join("\n") + (entries.length > 0 ? "\n" : "")
+  );
+}
+
+describe("renderDailyNote", () => {
+  test("renders front matter, a heading per topic and entity links", () => {
+    const note = renderDailyNote("2025-06-01", [
+      {
+        timestamp: "2025-06-01T16:00:00.000Z",
+        topic: "deploys",
+        content: "Rolled back the cache fix",
+        metadata: { tags: ["release"] },
+      },
+      {
+        timestamp: "2025-06-01T09:30:00.000Z",
+        topic: "decisions",
+        content: "Chose Postgres for billing\nRedis was too costly",
+        metadata: { tags: ["decision", "Release", "data store"], entities: ["projects/billing.md", "people/alice.md"] },
+      },
+      { timestamp: "2025-06-01T11:00:00.000Z", topic: "deploys", content: "Shipped the cache fix" },
+    ]);
+
+    expect(note).toBe(
+      [
+        "---",
+        "date: 2025-06-01",
+        "generator: macrodata",
+        "tags:",
+        "  - decision",
+        "  - Release",
+        "  - data-store",
+        "---",
+        "",
+        "# 2025-06-01",
+        "",
+        "## decisions",
+        "",
+        "**09:30** Chose Postgres for billing",
+        "Redis was too costly",
+        "",
+        "Related: [[projects/billing]], [[people/alice]]",
+        "",
+        "## deploys",
+        "",
+        "**11:00** Shipped the cache fix",
+        "",
+        "**16:00** Rolled back the cache fix",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("quotes tags YAML would not read as plain strings", () => {
+    const note = renderDailyNote("2025-06-01", [
+      {
+        timestamp: "2025-06-01T09:00:00.000Z",
+        topic: "notes",
+        content: "Tagged",
+        metadata: { tags: ["#x", "a: b", "[wip]", "yes", "2025", 'say "hi"'] },
+      },
+    ]);
+
+    expect(note).toStartWith(
+      [
+        "---",
+        "date: 2025-06-01",
+        "generator: macrodata",
+        "tags:",
+        "  - x",
+        '  - "a:-b"',
+        '  - "[wip]"',
+        '  - "yes"',
+        '  - "2025"',
+        '  - "say-\\"hi\\""',
+        "---",
+      ].join("\n")
+    );
+  });
+});
+
+describe("exportJournal", () => {
+  let ctx: TestContext;
+  let vault: string;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    vault = join(ctx.root, "vault", "journal");
+    writeDay(ctx, "2025-06-01", [{ timestamp: "2025-06-01T09:00:00.000Z", topic: "notes", content: "First day" }]);
+    writeDay(ctx, "2025-06-02", [{ timestamp: "2025-06-02T09:00:00.000Z", topic: "notes", content: "Second day" }]);
+  });
+
+  afterEach(() => {
+    ctx.cleanup();
+  });
+
+  test("writes one note per day, and only changed notes again", () => {
+    expect(exportJournal({ dir: vault }).written).toEqual(["2025-06-01", "2025-06-02"]);
+    expect(readFileSync(join(vault, "2025-06-02.md"), "utf-8")).toContain("**09:00** Second day");
+
+    writeDay(ctx, "2025-06-02", [{ timestamp: "2025-06-02T09:00:00.000Z", topic: "notes", content: "[redacted]" }]);
+    const again = exportJournal({ dir: vault });
+    expect(again.written).toEqual(["2025-06-02"]);
+    expect(again.unchanged).toBe(1);
+    expect(readFileSync(join(vault, "2025-06-02.md"), "utf-8")).not.toContain("Second day");
+  });
+
+  test("resolves a relative directory against the state root", () => {
+    const result = exportJournal({ dir: "vault/relative" });
+    expect(result.dir).toBe(join(ctx.root, "vault", "relative"));
+    expect(existsSync(join(ctx.root, "vault", "relative", "2025-06-01.md"))).toBe(true);
+  });
+
+  test("exports days from a date on", () => {
+    expect(exportJournal({ dir: vault, since: "2025-06-02" }).written).toEqual(["2025-06-02"]);
+    expect(existsSync(join(vault, "2025-06-01.md"))).toBe(false);
+  });
+
+  test("removes the note for a day with no entries left", () => {
+    exportJournal({ dir: vault });
+    writeDay(ctx, "2025-06-01", []);
+
+    expect(exportJournalFile(join(ctx.journalDir, "2025-06-01.jsonl"), vault)).toBe("written");
+    expect(existsSync(join(vault, "2025-06-01.md"))).toBe(false);
+  });
+
+  test("removes notes for deleted journal files", () => {
+    exportJournal({ dir: vault });
+    writeFileSync(join(vault, "notes.md"), "Not a daily note\n");
+    unlinkSync(join(ctx.journalDir, "2025-06-01.jsonl"));
+
+    const result = exportJournal({ dir: vault });
+    expect(result.written).toEqual(["2025-06-01"]);
+    expect(result.unchanged).toBe(1);
+    expect(existsSync(join(vault, "2025-06-01.md"))).toBe(false);
+    expect(existsSync(join(vault, "notes.md"))).toBe(true);
+  });
+
+  test("leaves notes it didn't write alone", () => {
+    const own = "---\ndate: 2024-01-01\n---\n\nMy own note\n";
+    const ownForJournalDay = "# 2025-06-01\n\nWritten in the vault\n";
+    mkdirSync(vault, { recursive: true });
+    writeFileSync(join(vault, "2024-01-01.md"), own);
+    writeFileSync(join(vault, "2025-06-01.md"), ownForJournalDay);
+
+    const result = exportJournal({ dir: vault });
+    expect(result.written).toEqual(["2025-06-02"]);
+    expect(result.skipped).toEqual(["2025-06-01"]);
+
+    writeDay(ctx, "2025-06-01", []);
+    expect(exportJournalFile(join(ctx.journalDir, "2025-06-01.jsonl"), vault)).toBe("skipped");
+    exportJournal({ dir: vault });
+
+    expect(readFileSync(join(vault, "2024-01-01.md"), "utf-8")).toBe(own);
+    expect(readFileSync(join(vault, "2025-06-01.md"), "utf-8")).toBe(ownForJournalDay);
+  });
+});
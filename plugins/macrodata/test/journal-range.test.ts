@@ -0,0 +1,88 @@
+/**
+ * Tests for journal timelines
+ *
+ * Reads journal files only - no embeddings required
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { getJournalRange, formatJournalTimeline } from "../src/journal-range";
+import { createTestContext, type TestContext } from "./helpers";
+
+const now = new Date("2025-06-15T14:30:00.000Z");
+
+/** Write a day's journal file; strings are written as-is, as malformed lines */
+function writeDay(ctx: TestContext, day: string, entries: Array<Record<string, unknown> | string>) {
+  writeFileSync(
+    join(ctx.journalDir, `${day}.jsonl`),
+    entries.map((e) => (typeof e === "string" ? e : JSON.stringify(e))).join("\n") + "\n"
+  );
+}
+
+describe("getJournalRange", () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    writeDay(ctx, "2025-06-08", [{ timestamp: "2025-06-08T10:00:00.000Z", topic: "deploys", content: "Before the range" }]);
+    writeDay(ctx, "2025-06-09", [
+      { timestamp: "2025-06-09T16:00:00.000Z", topic: "deploys", content: "Shipped the cache fix\nDetails", metadata: { tags: ["Release"] } },
+      { timestamp: "2025-06-09T09:00:00.000Z", topic: "planning", content: "Planned the week" },
+      "not json",
+    ]);
+    writeDay(ctx, "2025-06-12", [{ timestamp: "2025-06-12T11:00:00.000Z", topic: "deploys", content: "Rolled back the cache fix" }]);
+    writeDay(ctx, "2025-06-14", [{ timestamp: "2025-06-14T11:00:00.000Z", topic: "weekend", content: "After the range" }]);
+  });
+
+  afterEach(() => {
+    ctx.cleanup();
+  });
+
+  test("returns entries in the range by day, oldest first", () => {
+    const timeline = getJournalRange({ from: "monday", to: "friday", now });
+
+    expect(timeline.from).toBe("2025-06-09T00:00:00.000Z");
+    expect(timeline.to).toBe("2025-06-13T23:59:59.999Z");
+    expect(timeline.count).toBe(3);
+    expect(timeline.groups.map((g) => g.key)).toEqual(["2025-06-09", "2025-06-12"]);
+    expect(timeline.groups[0].entries.map((e) => e.summary)).toEqual(["Planned the week", "Shipped the cache fix"]);
+    expect(timeline.groups[0].entries[1].tags).toEqual(["Release"]);
+  });
+
+  test("groups by topic in order of first entry", () => {
+    const timeline = getJournalRange({ from: "2025-06-09", to: "2025-06-13", groupBy: "topic", now });
+    expect(timeline.groups.map((g) => [g.key, g.entries.length])).toEqual([
+      ["planning", 1],
+      ["deploys", 2],
+    ]);
+  });
+
+  test("filters by topic and tag", () => {
+    expect(getJournalRange({ from: "2025-06-01", topic: "deploys", now }).count).toBe(3);
+
+    const tagged = getJournalRange({ from: "2025-06-01", tag: "release", now });
+    expect(tagged.groups.flatMap((g) => g.entries.map((e) => e.summary))).toEqual(["Shipped the cache fix"]);
+  });
+
+  test("formats a compact timeline", () => {
+    const text = formatJournalTimeline(getJournalRange({ from: "monday", to: "friday", now }));
+    expect(text).toStartWith("3 journal entries from 2025-06-09 to 2025-06-13");
+    expect(text).toContain("## 2025-06-09 (2)");
+    expect(text).toContain("- 16:00 [deploys] Shipped the cache fix #Release (");
+    expect(text).not.toContain("Details");
+  });
+
+  test("resolves weekdays within the week when today is midweek", () => {
+    // 2025-06-11 is a Wednesday
+    const timeline = getJournalRange({ from: "monday", to: "friday", now: new Date("2025-06-11T12:00:00.000Z") });
+
+    expect(timeline.from).toBe("2025-06-09T00:00:00.000Z");
+    expect(timeline.to).toBe("2025-06-13T23:59:59.999Z");
+    expect(timeline.count).toBe(3);
+  });
+
+  test("rejects a range that ends before it starts", () => {
+    expect(() => getJournalRange({ from: "2025-06-13", to: "2025-06-09", now })).toThrow("before it starts");
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for cross-process file locks
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { createTestContext, type TestContext } from "./helpers";
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { join, dirname } from "path";
+import { withLock } from "../src/lock";
+import { VectorStore } from "../src/vector-store";
+
+const SRC_DIR = join(dirname(import.meta.dir), "src");
+const WRITES = 100;
+
+// Appends to the journal and does a read-modify-write on a store under
+// the locks, pausing mid-write so unlocked writers would interleave
+const writerScript = (name: string) => `
+  import { appendFileSync } from "fs";
+  import { join } from "path";
+  import { withLock } from "${join(SRC_DIR, "lock.ts")}";
+  import { VectorStore } from "${join(SRC_DIR, "vector-store.ts")}";
+  import { getIndexDir, getJournalDir } from "${join(SRC_DIR, "config.ts")}";
+
+  const journalPath = join(getJournalDir(), "2025-01-01.jsonl");
+  const store = new VectorStore(join(getIndexDir(), "memory.sqlite"));
+
+  for (let i = 0; i < ${WRITES}; i++) {
+    const content = "${name} ".repeat(2000) + i;
+    withLock(journalPath, () => appendFileSync(journalPath, JSON.stringify({ topic: "${name}", content }) + "\\n"));
+
+    withLock(store.path, () => {
+      const count = store.getMeta("writes") ?? 0;
+      Bun.sleepSync(1);
+      store.upsert([{ id: "${name}-" + i, vector: [1, 0], metadata: { source: "${name}" }, text: content }]);
+      store.setMeta("writes", count + 1);
+    });
+  }
+  store.close();
+`;
+
+describe("withLock", () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  afterEach(() => {
+    ctx.cleanup();
+  });
+
+  test("runs the function and removes the lock file", () => {
+    const path = join(ctx.journalDir, "locked.jsonl");
+
+    const result = withLock(path, () => {
+      expect(readFileSync(`${path}.lock`, "utf-8")).toBe(String(process.pid));
+      return 42;
+    });
+
+    expect(result).toBe(42);
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  test("releases the lock when the function throws", () => {
+    const path = join(ctx.journalDir, "locked.jsonl");
+
+    expect(() =>
+      withLock(path, () => {
+        throw new Error("boom");
+      })
+    ).toThrow("boom");
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  test("allows nested locks on the same path", () => {
+    const path = join(ctx.journalDir, "locked.jsonl");
+
+    withLock(path, () => withLock(path, () => undefined));
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  test("takes over a lock left by a process that has exited", () => {
+    const path = join(ctx.journalDir, "locked.jsonl");
+    const exited = Bun.spawnSync(["bun", "-e", "console.log(process.pid)"]);
+    writeFileSync(`${path}.lock`, exited.stdout.toString().trim());
+
+    expect(withLock(path, () => "ran", { timeoutMs: 1000 })).toBe("ran");
+  });
+
+  test("leaves no files behind after taking over a stale lock", () => {
+    const path = join(ctx.journalDir, "locked.jsonl");
+    const exited = Bun.spawnSync(["bun", "-e", "console.log(process.pid)"]);
+    writeFileSync(`${path}.lock`, exited.stdout.toString().trim());
+
+    withLock(path, () => {});
+    expect(readdirSync(ctx.journalDir).filter((f) => f.startsWith("locked.jsonl.lock"))).toEqual([]);
+  });
+
+  test("doesn't remove a lock that another process has taken over", () => {
+    const path = join(ctx.journalDir, "locked.jsonl");
+    withLock(path, () => writeFileSync(`${path}.lock`, String(process.ppid)));
+
+    expect(readFileSync(`${path}.lock`, "utf-8")).toBe(String(process.ppid));
+  });
+
+  test("throws rather than retrying when the lock file can't be read", () => {
+    const path = join(ctx.journalDir, "locked.jsonl");
+    mkdirSync(`${path}.lock`);
+
+    expect(() => withLock(path, () => "ran", { timeoutMs: 100 })).toThrow("EISDIR");
+  });
+
+  test("times out while another process holds the lock", () => {
+    const path = join(ctx.journalDir, "locked.jsonl");
+    writeFileSync(`${path}.lock`, String(process.ppid));
+
+    expect(() => withLock(path, () => "ran", { timeoutMs: 100 })).toThrow("Timed out");
+  });
+
+  test(
+    "keeps writes from parallel processes consistent",
+    async () => {
+      const writers = ["alpha", "beta"].map((name) =>
+        Bun.spawn(["bun", "-e", writerScript(name)], {
+          env: { ...process.env, MACRODATA_ROOT: ctx.root },
+          stderr: "pipe",
+        })
+      );
+      const exitCodes = await Promise.all(writers.map((writer) => writer.exited));
+      expect(exitCodes).toEqual([0, 0]);
+
+      const lines = readFileSync(join(ctx.journalDir, "2025-01-01.jsonl"), "utf-8").trim().split("\n");
+      expect(lines.length).toBe(WRITES * 2);
+      for (const line of lines) {
+        expect(() => JSON.parse(line)).not.toThrow();
+      }
+
+      const store = new VectorStore(join(ctx.indexDir, "memory.sqlite"));
+      expect(store.count()).toBe(WRITES * 2);
+      expect(store.getMeta<number>("writes")).toBe(WRITES * 2);
+      store.close();
+    },
+    { timeout: 60000 }
+  );
+});
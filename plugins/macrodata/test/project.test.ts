@@ -0,0 +1,69 @@
+/**
+ * Tests for current project detection
+ *
+ * Uses temp directories with a hand-written .git, so git isn't required
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getGitBranch, getProjectContext, getProjectMetadata } from "../src/project";
+
+describe("project", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "macrodata-project-"));
+    mkdirSync(join(root, ".git"));
+    writeFileSync(join(root, ".git", "HEAD"), "ref: refs/heads/feature/search\n");
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe("getGitBranch", () => {
+    test("reads the checked-out branch", () => {
+      expect(getGitBranch(root)).toBe("feature/search");
+    });
+
+    test("finds the repository from a subdirectory", () => {
+      const sub = join(root, "src", "lib");
+      mkdirSync(sub, { recursive: true });
+      expect(getGitBranch(sub)).toBe("feature/search");
+    });
+
+    test("uses the short hash when detached", () => {
+      writeFileSync(join(root, ".git", "HEAD"), "0123456789abcdef0123456789abcdef01234567\n");
+      expect(getGitBranch(root)).toBe("0123456");
+    });
+
+    test("follows a linked worktree's .git file", () => {
+      const gitDir = join(root, ".git", "worktrees", "other");
+      mkdirSync(gitDir, { recursive: true });
+      writeFileSync(join(gitDir, "HEAD"), "ref: refs/heads/hotfix\n");
+      const worktree = join(root, "other");
+      mkdirSync(worktree);
+      writeFileSync(join(worktree, ".git"), `gitdir: ${gitDir}\n`);
+      expect(getGitBranch(worktree)).toBe("hotfix");
+    });
+
+    test("returns undefined outside a repository", () => {
+      rmSync(join(root, ".git"), { recursive: true });
+      expect(getGitBranch(root)).toBeUndefined();
+    });
+  });
+
+  describe("getProjectContext", () => {
+    test("describes the project directory", () => {
+      const project = getProjectContext(root);
+      expect(project).toEqual({ path: root, name: root.split("/").pop()!, branch: "feature/search" });
+    });
+
+    test("returns null without a project directory", () => {
+      expect(getProjectContext(undefined)).toBeNull();
+      expect(getProjectMetadata(undefined)).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for ranking helpers
+ *
+ * Pure functions - no embeddings required
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  tokenize,
+  bm25Scores,
+  reciprocalRankFusion,
+  maximalMarginalRelevance,
+  highlightMatch,
+} from "../src/ranking";
+
+describe("ranking", () => {
+  describe("tokenize", () => {
+    test("lowercases and splits on punctuation", () => {
+      expect(tokenize("Fixed TypeError: cannot read 'foo'")).toEqual([
+        "fixed",
+        "typeerror",
+        "cannot",
+        "read",
+        "foo",
+      ]);
+    });
+
+    test("keeps identifiers with underscores intact", () => {
+      expect(tokenize("ERR_CONNECTION_RESET at fetch_data()")).toEqual([
+        "err_connection_reset",
+        "at",
+        "fetch_data",
+      ]);
+    });
+  });
+
+  describe("bm25Scores", () => {
+    test("scores documents containing the exact term highest", () => {
+      const scores = bm25Scores("PROJ-4821", [
+        "Discussed the roadmap for next quarter",
+        "Fixed PROJ-4821 by retrying the upload",
+        "Project planning notes",
+      ]);
+
+      expect(scores[1]).toBeGreaterThan(0);
+      expect(scores[0]).toBe(0);
+      expect(scores[2]).toBe(0);
+    });
+
+    test("rare terms outweigh common ones", () => {
+      const scores = bm25Scores("deploy ECONNREFUSED", [
+        "deploy went fine",
+        "deploy failed",
+        "deploy failed with ECONNREFUSED",
+      ]);
+
+      expect(scores[2]).toBeGreaterThan(scores[0]);
+      expect(scores[2]).toBeGreaterThan(scores[1]);
+    });
+
+    test("returns zeros for an empty query", () => {
+      expect(bm25Scores("  ", ["anything"])).toEqual([0]);
+    });
+  });
+
+  describe("reciprocalRankFusion", () => {
+    test("items ranked well in both lists win", () => {
+      const fused = reciprocalRankFusion([
+        ["a", "b", "c"],
+        ["b", "c", "a"],
+      ]);
+
+      expect(fused.get("b")!).toBeGreaterThan(fused.get("a")!);
+      expect(fused.get("b")!).toBeGreaterThan(fused.get("c")!);
+    });
+
+    test("normalises scores to at most 1", () => {
+      const fused = reciprocalRankFusion([["a"], ["a"]]);
+      expect(fused.get("a")).toBeCloseTo(1);
+    });
+
+    test("includes items that appear in only one list", () => {
+      const fused = reciprocalRankFusion([["a"], ["b"]]);
+      expect(fused.has("a")).toBe(true);
+      expect(fused.has("b")).toBe(true);
+    });
+  });
+
+  describe("maximalMarginalRelevance", () => {
+    const candidates = [
+      { id: "a", score: 1, vector: [1, 0] },
+      { id: "a-again", score: 0.95, vector: [0.99, 0.01] },
+      { id: "b", score: 0.6, vector: [0, 1] },
+    ];
+    type Candidate = (typeof candidates)[number];
+    const options = { score: (c: Candidate) => c.score, vector: (c: Candidate) => c.vector };
+
+    test("keeps the relevance order with no diversity", () => {
+      const picked = maximalMarginalRelevance(candidates, { ...options, limit: 2, diversity: 0 });
+      expect(picked.map((c) => c.id)).toEqual(["a", "a-again"]);
+    });
+
+    test("pushes down near-duplicates of results already picked", () => {
+      const picked = maximalMarginalRelevance(candidates, { ...options, limit: 3, diversity: 0.5 });
+      expect(picked.map((c) => c.id)).toEqual(["a", "b", "a-again"]);
+    });
+
+    test("doesn't penalise results without a vector", () => {
+      const picked = maximalMarginalRelevance(candidates, {
+        ...options,
+        vector: (c) => (c.id === "a-again" ? null : c.vector),
+        limit: 2,
+        diversity: 0.5,
+      });
+      expect(picked.map((c) => c.id)).toEqual(["a", "a-again"]);
+    });
+  });
+
+  describe("highlightMatch", () => {
+    test("picks the best-matching sentence and marks query terms", () => {
+      const text = "Deployed the API on Monday. The deploy failed with ECONNREFUSED on the cache host. Rolled back after lunch.";
+      expect(highlightMatch("deploy econnrefused", text)).toBe(
+        "The **deploy** failed with **ECONNREFUSED** on the cache host."
+      );
+    });
+
+    test("treats lines as sentences", () => {
+      expect(highlightMatch("retry budget", "## Notes\nRaised the retry budget to 5")).toBe(
+        "Raised the **retry** **budget** to 5"
+      );
+    });
+
+    test("falls back to the first sentence without matching terms", () => {
+      expect(highlightMatch("italian food", "Made carbonara. Then washed up.")).toBe("Made carbonara.");
+    });
+
+    test("only marks whole terms", () => {
+      expect(highlightMatch("cache", "Cached the cache.")).toBe("Cached the **cache**.");
+    });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Tests for fusing memory and conversation search results
+ */
+
+import { describe, test, expect } from "bun:test";
+import { fuseHits, type SearchOrigin, type UnifiedSearchHit } from "../src/search-everything";
+
+const hit = (origin: SearchOrigin, id: string, originScore: number, similarity?: number): UnifiedSearchHit => ({
+  origin,
+  id,
+  title: id,
+  content: id,
+  score: originScore,
+  originScore,
+  similarity,
+  expand: { sessionPath: `/sessions/${id}`, messageUuid: id },
+});
+
+describe("fuseHits", () => {
+  test("ranks the best hits of each origin by similarity, not raw score", () => {
+    const memory = [hit("memory", "m1", 0.9, 0.4), hit("memory", "m2", 0.8, 0.3)];
+    const conversations = [hit("claude-code", "c1", 0.2, 0.7), hit("claude-code", "c2", 0.1, 0.5)];
+
+    const fused = fuseHits([memory, conversations], 4);
+
+    expect(fused.map((r) => r.id)).toEqual(["c1", "m1", "c2", "m2"]);
+  });
+
+  test("normalises scores so the best possible hit scores 1", () => {
+    const fused = fuseHits([[hit("memory", "m1", 5, 0.9)], [hit("opencode", "o1", 0.1, 0.2)]], 5);
+
+    expect(fused[0].score).toBeCloseTo(1);
+    expect(fused[1].score).toBeGreaterThan(0);
+    expect(fused[1].score).toBeLessThan(1);
+  });
+
+  test("includes hits that only matched by keyword", () => {
+    const memory = [hit("memory", "exact", 1)];
+    const conversations = [hit("claude-code", "c1", 0.5, 0.6)];
+
+    const fused = fuseHits([memory, conversations], 5);
+
+    expect(fused.map((r) => r.id)).toEqual(["c1", "exact"]);
+    expect(fused[1].expand).toEqual({ sessionPath: "/sessions/exact", messageUuid: "exact" });
+  });
+
+  test("keeps the same id from different origins apart and respects the limit", () => {
+    const fused = fuseHits([[hit("memory", "x", 1, 0.5)], [hit("opencode", "x", 1, 0.4)], []], 1);
+
+    expect(fused.length).toBe(1);
+    expect(fused[0].origin).toBe("memory");
+    expect(fuseHits([[], []], 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for the SQLite vector store
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { createTestContext, type TestContext } from "./helpers";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { Database } from "bun:sqlite";
+import { VectorStore, migrateVectraIndex } from "../src/vector-store";
+
+describe("VectorStore", () => {
+  let ctx: TestContext;
+  let store: VectorStore;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    store = new VectorStore(join(ctx.indexDir, "test.sqlite"));
+  });
+
+  afterEach(() => {
+    store.close();
+    ctx.cleanup();
+  });
+
+  const item = (id: string, vector: number[], text: string, source = "a.md") => ({
+    id,
+    vector,
+    metadata: { source, content: text },
+    text,
+  });
+
+  test("upserts and reads items back", () => {
+    store.upsert([item("a", [1, 0], "first"), item("b", [0, 1], "second")]);
+    store.upsert([item("a", [0.5, 0.5], "first again")]);
+
+    expect(store.count()).toBe(2);
+    expect(store.get("a")?.vector).toEqual([0.5, 0.5]);
+    expect(store.get("a")?.metadata.content).toBe("first again");
+    expect(store.get("missing")).toBeNull();
+  });
+
+  test("ranks vector queries by cosine similarity", () => {
+    store.upsert([item("x", [1, 0, 0], "x"), item("y", [0, 1, 0], "y"), item("xy", [1, 1, 0], "xy")]);
+
+    const results = store.query([1, 0.1, 0], 2);
+    expect(results.map((r) => r.id)).toEqual(["x", "xy"]);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  test("full-text search matches any term and keeps up with updates", () => {
+    store.upsert([
+      item("deploy", [1, 0], "Deploy failed with ECONNREFUSED"),
+      item("ticket", [0, 1], "Fixed PROJ-4821 in the billing service"),
+    ]);
+
+    expect(store.search("PROJ-4821", 5).map((r) => r.id)).toEqual(["ticket"]);
+    expect(store.search("econnrefused billing", 5).length).toBe(2);
+
+    store.upsert([item("ticket", [0, 1], "Reopened the billing bug")]);
+    expect(store.search("PROJ-4821", 5)).toEqual([]);
+
+    store.delete(["deploy"]);
+    expect(store.search("deploy", 5)).toEqual([]);
+  });
+
+  test("ignores FTS syntax in queries", () => {
+    store.upsert([item("a", [1, 0], "notes about NEAR and OR")]);
+    expect(store.search('"NEAR( OR *', 5).map((r) => r.id)).toEqual(["a"]);
+  });
+
+  test("applies filters before taking the top results", () => {
+    store.upsert([
+      item("a", [1, 0], "deploy notes", "one.md"),
+      item("b", [0.9, 0.1], "deploy notes", "one.md"),
+      item("c", [0, 1], "deploy notes", "two.md"),
+    ]);
+    const filter = (metadata: { source?: unknown }) => metadata.source === "two.md";
+
+    expect(store.query([1, 0], 1, filter).map((r) => r.id)).toEqual(["c"]);
+    expect(store.search("deploy", 1, filter).map((r) => r.id)).toEqual(["c"]);
+  });
+
+  test("returns vectors with matches when asked", () => {
+    store.upsert([item("a", [1, 0], "first"), item("b", [0, 1], "second")]);
+
+    const [withVector] = store.query([1, 0], 1, undefined, { withVectors: true });
+    expect(Array.from(withVector.vector!)).toEqual([1, 0]);
+    expect(store.query([1, 0], 1)[0].vector).toBeUndefined();
+  });
+
+  test("queries only items whose vectors changed since a time", () => {
+    store.upsert([item("same", [1, 0], "same"), item("changed", [0.9, 0.1], "changed")]);
+    Bun.sleepSync(5);
+    const since = Date.now();
+    store.upsert([item("same", [1, 0], "same"), item("changed", [0.8, 0.2], "changed again"), item("new", [0.7, 0.3], "new")]);
+
+    expect(store.query([1, 0], 10, undefined, { indexedSince: since }).map((m) => m.id)).toEqual(["changed", "new"]);
+    expect(store.search("same changed new", 10, undefined, { indexedSince: since }).map((m) => m.id).sort()).toEqual([
+      "changed",
+      "new",
+    ]);
+    expect(store.query([1, 0], 10).length).toBe(3);
+  });
+
+  test("lists ids by source", () => {
+    store.upsert([item("a", [1, 0], "a", "one.md"), item("b", [1, 0], "b", "two.md")]);
+    expect(store.listIdsBySource("two.md")).toEqual(["b"]);
+  });
+
+  test("lists ids by source and type", () => {
+    store.upsert([
+      { ...item("a", [1, 0], "a", "state/x.md"), metadata: { source: "state/x.md", type: "state" } },
+      { ...item("b", [1, 0], "b", "state/x.md"), metadata: { source: "state/x.md", type: "entity:state" } },
+    ]);
+    expect(store.listIdsBySource("state/x.md", "entity:state")).toEqual(["b"]);
+    expect(store.listIdsBySource("state/x.md").sort()).toEqual(["a", "b"]);
+  });
+
+  test("clear keeps metadata", () => {
+    store.upsert([item("a", [1, 0], "a")]);
+    store.setMeta("index", { model: "test" });
+    store.clear();
+
+    expect(store.count()).toBe(0);
+    expect(store.getMeta<{ model: string }>("index")?.model).toBe("test");
+  });
+
+  test("adds the indexed time to an index from before it was tracked", () => {
+    const path = join(ctx.indexDir, "old.sqlite");
+    const db = new Database(path, { create: true });
+    db.exec("CREATE TABLE items (rowid INTEGER PRIMARY KEY, id TEXT NOT NULL UNIQUE, source TEXT, vector BLOB NOT NULL, metadata TEXT NOT NULL)");
+    db.close();
+
+    const old = new VectorStore(path);
+    old.upsert([item("a", [1, 0], "first")]);
+    expect(old.query([1, 0], 1, undefined, { indexedSince: Date.now() - 60_000 }).map((m) => m.id)).toEqual(["a"]);
+    old.close();
+  });
+
+  test("migrates a Vectra index directory", () => {
+    const legacyPath = join(ctx.indexDir, "vectors");
+    mkdirSync(legacyPath, { recursive: true });
+    writeFileSync(
+      join(legacyPath, "index.json"),
+      JSON.stringify({
+        version: 1,
+        metadata_config: {},
+        items: [{ id: "a", vector: [1, 0], metadata: { content: "rotated credentials" } }],
+      })
+    );
+    writeFileSync(join(legacyPath, "meta.json"), JSON.stringify({ model: "test" }));
+
+    const migrated = migrateVectraIndex(store, legacyPath, (meta) => String(meta.content));
+
+    expect(migrated).toBe(1);
+    expect(existsSync(legacyPath)).toBe(false);
+    expect(store.search("credentials", 5).map((r) => r.id)).toEqual(["a"]);
+    expect(store.getMeta<{ model: string }>("index")?.model).toBe("test");
+  });
+});